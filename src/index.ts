@@ -1,11 +1,40 @@
 import { Hono } from 'hono';
-import type { Context } from 'hono';
-import type { Env, AppVariables } from './types';
+import type { Context, Next } from 'hono';
+import type { Env, AppVariables, TusConfig, UploadConfig } from './types';
+import { configLoader } from './middleware/config-loader';
 import { bucketRouter } from './middleware/bucket-router';
+import { routeAuth } from './middleware/route-auth';
+import { hotlinkProtection } from './middleware/hotlink';
+import { accessRules } from './middleware/access';
+import { cors } from './middleware/cors';
+import { uploadAuth } from './middleware/upload-auth';
+import { s3Api } from './middleware/s3-api';
 import { getObject } from './services/object';
+import { deleteObject, putObject } from './services/upload';
+import { abortMultipartUpload, completeMultipartUpload, createMultipartUpload, listParts, uploadPart } from './services/multipart';
+import type { S3Access } from './services/multipart';
+import { formUpload, isFormUpload } from './services/form-upload';
+import {
+	TUS_PARAM,
+	checkTusResumable,
+	createTusUpload,
+	getTusUpload,
+	patchTusUpload,
+	terminateTusUpload,
+	tusOptionsHeaders,
+} from './services/tus';
+import { purgeUrl } from './services/purge';
+import { hasChildren, listDirectory } from './services/listing';
+import { getObjectMeta } from './services/object-meta';
+import { SIGNED_URL_PARAMS } from './utils/signed-url';
+import admin from './routes/admin';
 
 type AppContext = Context<{ Bindings: Env; Variables: AppVariables }>;
 
+/** Methods on routes with `uploads` (POST: form, multipart and tus uploads) */
+const UPLOAD_METHODS = 'GET, HEAD, PUT, POST, DELETE, OPTIONS';
+const TUS_METHODS = 'GET, HEAD, PUT, POST, PATCH, DELETE, OPTIONS';
+
 const app = new Hono<{ Bindings: Env; Variables: AppVariables }>();
 
 // ── Global error handler ──────────────────────────────────────────────────────
@@ -15,51 +44,263 @@ app.onError((err, c) => {
 	return c.text('Internal Server Error', 500);
 });
 
-// ── Root ──────────────────────────────────────────────────────────────────────
+// ── Config (validated once per isolate) ───────────────────────────────────────
+
+app.use('*', configLoader);
 
-app.get('/', (c) => c.text('Object CDN'));
+// ── Admin API ─────────────────────────────────────────────────────────────────
+
+app.route('/_admin', admin);
 
 // ── Serve object (catch-all GET + HEAD) ───────────────────────────────────────
 
-const serveObject = [bucketRouter, async (c: AppContext) => {
+// `GET /<key>?uploadId=X` (multipart parts) and `HEAD /<key>?tus=X` (tus
+// offset) report on uploads instead of serving the object; they're write-side
+// calls, so upload auth applies, not read auth. Only on routes that accept
+// uploads (and tus for `?tus`) — elsewhere the params are just query strings.
+const uploadStatus = async (c: AppContext, next: Next) => {
+	const uploads = c.var.route?.uploads;
+	const uploadId = uploads && c.req.method === 'GET' ? c.req.query('uploadId') : undefined;
+	const tusId = uploads?.tus && c.req.method === 'HEAD' ? c.req.query(TUS_PARAM) : undefined;
+	if (uploadId === undefined && tusId === undefined) return next();
+
+	let authorized = false;
+	const denied = await uploadAuth(c, async () => {
+		authorized = true;
+	});
+	if (!authorized) return denied;
+	if (!c.var.objectKey) return c.text('Missing object key', 400);
+
+	if (uploadId !== undefined) return listParts({ s3: getS3Access(c), key: c.var.objectKey, uploadId });
+
+	const tus = uploads!.tus!;
+	return checkTusResumable(c.req.raw) ?? getTusUpload({ kv: getTusKV(c, tus), key: c.var.objectKey, id: tusId! });
+};
+
+const serveObject = [bucketRouter, cors, accessRules, s3Api, uploadStatus, hotlinkProtection, routeAuth, async (c: AppContext) => {
 	const key = c.var.objectKey;
+	// Metadata only, straight from R2 — never cached. Opt-in per route
+	if (key && c.var.route?.meta && c.req.query('meta') !== undefined) {
+		return getObjectMeta({
+			buckets: [{ name: c.var.bucketName, bucket: c.var.bucket }, ...c.var.fallbackBuckets],
+			key,
+			route: c.var.route,
+		});
+	}
+
+	const cacheConfig = c.var.cacheConfig;
+	const bypassCache =
+		!cacheConfig.cacheEnabled ||
+		(cacheConfig.bypassParamEnabled && c.req.query(cacheConfig.bypassParamName) !== undefined);
+	// Token-gated objects never enter the shared caches
+	const privateResponse = c.var.route?.auth?.type === 'jwt';
+
+	const listing = c.var.route?.listing;
+	if (listing && (!key || key.endsWith('/'))) {
+		return listDirectory({
+			bucket: c.var.bucket,
+			prefix: key,
+			request: c.req.raw,
+			ctx: c.executionCtx,
+			listing,
+			bypassCache,
+			privateResponse,
+			cacheKey: cacheConfig.cacheKey,
+			cacheKeyDropParams: c.var.route?.auth?.type === 'signed-url' ? SIGNED_URL_PARAMS : undefined,
+		});
+	}
 	if (!key) {
-		return c.text('Not Found', 404);
+		// Root — unless a site route mapped it to its index document
+		return c.req.path === '/' ? c.text('Object CDN') : c.text('Not Found', 404);
 	}
 
-	const cacheConfig = c.env.CACHE;
 	// Sanitize custom tags: allow only alphanumeric, hyphens, underscores, dots, slashes
 	const customTags = (c.req.query('tags')?.split(',').filter(Boolean) ?? [])
 		.map((t) => t.replace(/[^a-zA-Z0-9\-_./]/g, ''))
 		.filter(Boolean);
 
-	const cacheEnabled = cacheConfig?.cacheEnabled !== false;
-	const bypassParamEnabled = cacheConfig?.bypassParamEnabled ?? false;
-	const bypassParamName = cacheConfig?.bypassParamName ?? 'no-cache';
-	const bypassCache =
-		!cacheEnabled || (bypassParamEnabled && c.req.query(bypassParamName) !== undefined);
-
 	const useS3 = c.req.query('via') === 's3';
 
-	return getObject({
+	const response = await getObject({
 		bucket: c.var.bucket,
+		bucketName: c.var.bucketName,
+		fallbackBuckets: c.var.fallbackBuckets,
+		promoteOnFallback: c.var.route?.promoteOnFallback,
 		key,
 		request: c.req.raw,
 		ctx: c.executionCtx,
-		storageConfig: c.env.STORAGE,
+		storageConfig: c.var.config.storage,
 		cacheConfig,
 		bypassCache,
 		customTags,
 		useS3,
-		s3Endpoint: c.env.S3?.endpoint,
+		s3Endpoint: c.var.config.s3?.endpoint,
 		s3AccessKeyId: c.env.S3_ACCESS_KEY_ID,
 		s3SecretAccessKey: c.env.S3_SECRET_ACCESS_KEY,
 		r2BucketName: c.var.r2BucketName,
 		kvCache: c.env.CDN_CACHE,
+		site: c.var.route?.site,
+		// Signed links to the same object share one cache entry
+		cacheKeyDropParams: c.var.route?.auth?.type === 'signed-url' ? SIGNED_URL_PARAMS : undefined,
+		privateResponse,
 	});
+
+	// "/docs" on a listing route: no such object, but a directory of that name
+	if (listing && response.status === 404 && (await hasChildren(c.var.bucket, key))) {
+		const url = new URL(c.req.url);
+		return c.redirect(`${url.pathname}/${url.search}`, 302);
+	}
+	return response;
 }] as const;
 
 app.get('/*', ...serveObject);
 app.on('HEAD', '/*', ...serveObject);
 
+// ── Writes (PUT, POST, DELETE, PATCH) ─────────────────────────────────────────
+// Only on routes with `uploads`; the cached copy of the URL is purged before
+// responding so the next read goes to R2.
+
+app.put('/*', bucketRouter, cors, accessRules, s3Api, uploadAuth, async (c) => {
+	const key = c.var.objectKey;
+	if (!key) return c.text('Missing object key', 400);
+
+	const bucket = c.var.bucket;
+	const uploads = c.var.route!.uploads!;
+	const uploadId = c.req.query('uploadId');
+	if (uploadId !== undefined) {
+		return uploadPart({
+			bucket,
+			key,
+			uploadId,
+			partNumber: c.req.query('partNumber'),
+			request: c.req.raw,
+			uploads,
+			kv: c.env.CDN_CACHE,
+		});
+	}
+
+	const res = await putObject({ bucket, key, request: c.req.raw, uploads });
+	if (res.ok) await purgeUrl(c.req.url, c.env.CDN_CACHE, c.var.cacheConfig.cacheKey);
+	return res;
+});
+
+app.post('/*', bucketRouter, cors, accessRules, s3Api, uploadAuth, async (c) => {
+	const key = c.var.objectKey;
+	const bucket = c.var.bucket;
+	const uploads = c.var.route!.uploads!;
+
+	if (uploads.tus && c.req.header('Tus-Resumable') !== undefined) {
+		if (!key) return c.text('Missing object key', 400);
+		const tus = uploads.tus;
+		return (
+			checkTusResumable(c.req.raw) ??
+			createTusUpload({ bucket, kv: getTusKV(c, tus), key, url: c.req.url, request: c.req.raw, uploads, tus })
+		);
+	}
+
+	// Forms are posted to a directory: files land under it, keyed by formKeyTemplate
+	if (isFormUpload(c.req.raw)) {
+		const url = new URL(c.req.url);
+		return formUpload({
+			bucket,
+			request: c.req.raw,
+			uploads,
+			prefix: key.slice(0, key.lastIndexOf('/') + 1),
+			baseUrl: url.origin + url.pathname.slice(0, url.pathname.lastIndexOf('/') + 1),
+			kvCache: c.env.CDN_CACHE,
+			cacheKey: c.var.cacheConfig.cacheKey,
+		});
+	}
+
+	if (!key) return c.text('Missing object key', 400);
+	if (c.req.query('uploads') !== undefined) {
+		return createMultipartUpload({ bucket, key, request: c.req.raw, uploads, kv: c.env.CDN_CACHE });
+	}
+
+	const uploadId = c.req.query('uploadId');
+	if (uploadId !== undefined) {
+		const res = await completeMultipartUpload({ bucket, key, uploadId, request: c.req.raw, uploads, kv: c.env.CDN_CACHE });
+		if (res.ok) await purgeUrl(c.req.url, c.env.CDN_CACHE, c.var.cacheConfig.cacheKey);
+		return res;
+	}
+
+	return c.text('Unsupported Media Type', 415);
+});
+
+app.delete('/*', bucketRouter, cors, accessRules, s3Api, uploadAuth, async (c) => {
+	const key = c.var.objectKey;
+	if (!key) return c.text('Missing object key', 400);
+
+	const uploadId = c.req.query('uploadId');
+	if (uploadId !== undefined) {
+		return abortMultipartUpload({ bucket: c.var.bucket, key, uploadId });
+	}
+
+	const tusId = c.req.query(TUS_PARAM);
+	if (tusId !== undefined) {
+		const tus = c.var.route!.uploads!.tus;
+		if (!tus) return c.text('Not Found', 404);
+		return checkTusResumable(c.req.raw) ?? terminateTusUpload({ bucket: c.var.bucket, kv: getTusKV(c, tus), key, id: tusId });
+	}
+
+	const res = await deleteObject({ buckets: [{ name: c.var.bucketName, bucket: c.var.bucket }, ...c.var.fallbackBuckets], key });
+	await purgeUrl(c.req.url, c.env.CDN_CACHE, c.var.cacheConfig.cacheKey);
+	return res;
+});
+
+// tus appends with PATCH; the completed object's URL is purged by the service
+app.patch('/*', bucketRouter, cors, accessRules, s3Api, uploadAuth, async (c) => {
+	const key = c.var.objectKey;
+	const tusId = c.req.query(TUS_PARAM);
+	const tus = c.var.route!.uploads!.tus;
+	if (!tus || tusId === undefined) return c.text('Method Not Allowed', 405, { Allow: getAllowedMethods(c.var.route!.uploads) });
+	if (!key) return c.text('Missing object key', 400);
+
+	const url = new URL(c.req.url);
+	url.search = '';
+	return (
+		checkTusResumable(c.req.raw) ??
+		patchTusUpload({
+			bucket: c.var.bucket,
+			kv: getTusKV(c, tus),
+			key,
+			id: tusId,
+			url: url.toString(),
+			request: c.req.raw,
+			kvCache: c.env.CDN_CACHE,
+			cacheKey: c.var.cacheConfig.cacheKey,
+		})
+	);
+});
+
+// ── CORS preflight ────────────────────────────────────────────────────────────
+// Preflights on CORS routes are answered by the cors middleware; anything
+// else lists the supported methods (and the tus capabilities on tus routes).
+
+app.options('/*', bucketRouter, cors, (c) => {
+	const uploads = c.var.route?.uploads;
+	return c.body(null, 204, { Allow: getAllowedMethods(uploads), ...(uploads?.tus ? tusOptionsHeaders(uploads) : {}) });
+});
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function getAllowedMethods(uploads: UploadConfig | undefined): string {
+	if (!uploads) return 'GET, HEAD, OPTIONS';
+	return uploads.tus ? TUS_METHODS : UPLOAD_METHODS;
+}
+
+function getTusKV(c: AppContext, tus: TusConfig): KVNamespace {
+	return c.env[tus.binding] as KVNamespace;
+}
+
+/** S3 API access for the route's bucket, if credentials are configured */
+function getS3Access(c: AppContext): S3Access | undefined {
+	const endpoint = c.var.config.s3?.endpoint;
+	const accessKeyId = c.env.S3_ACCESS_KEY_ID;
+	const secretAccessKey = c.env.S3_SECRET_ACCESS_KEY;
+	const bucketName = c.var.r2BucketName;
+	if (!endpoint || !accessKeyId || !secretAccessKey || !bucketName) return undefined;
+	return { endpoint, accessKeyId, secretAccessKey, bucketName };
+}
+
 export default app;
@@ -0,0 +1,85 @@
+import { createMiddleware } from 'hono/factory';
+import type { Env, AppVariables, AccessConfig, AccessRule, AccessDenyStatus } from '../types';
+import { ipMatchesAny } from '../utils/ip';
+import { getErrorObject } from '../services/object';
+
+/** What the rules are evaluated against */
+interface AccessClient {
+	country?: string;
+	continent?: string;
+	asn?: number;
+	ip?: string;
+}
+
+const DENY_TEXT: Record<AccessDenyStatus, string> = {
+	403: 'Forbidden',
+	451: 'Unavailable For Legal Reasons',
+};
+
+/**
+ * Middleware enforcing the matched route's `access` rules. Runs after
+ * bucketRouter and before any cache lookup, so cache hits are subject to the
+ * same geo / network restrictions as origin fetches.
+ */
+export const accessRules = createMiddleware<{
+	Bindings: Env;
+	Variables: AppVariables;
+}>(async (c, next) => {
+	const access = c.var.route?.access;
+	if (!access) {
+		await next();
+		return;
+	}
+
+	const cf = c.req.raw.cf as IncomingRequestCfProperties | undefined;
+	const client: AccessClient = {
+		country: cf?.country ?? undefined,
+		continent: cf?.continent ?? undefined,
+		asn: cf?.asn,
+		ip: c.req.header('CF-Connecting-IP'),
+	};
+
+	const status = evaluateAccess(access, c.var.objectKey, client);
+	if (status === null) {
+		await next();
+		return;
+	}
+
+	console.log(
+		`Access denied (${status}) for key "${c.var.objectKey}":`,
+		JSON.stringify({ country: client.country, continent: client.continent, asn: client.asn, ip: client.ip }),
+	);
+
+	if (access.errorDocument) {
+		const errorObject = await getErrorObject({
+			buckets: [{ name: c.var.bucketName, bucket: c.var.bucket }, ...c.var.fallbackBuckets],
+			key: access.errorDocument,
+			status,
+			storageConfig: c.var.config.storage,
+			cacheConfig: c.var.cacheConfig,
+		});
+		if (errorObject) return errorObject;
+	}
+	return c.text(DENY_TEXT[status], status);
+});
+
+/** The deny status for this request, or null if it is allowed */
+function evaluateAccess(access: AccessConfig, key: string, client: AccessClient): AccessDenyStatus | null {
+	const rule = access.rules.find((r) => ruleMatches(r, key, client));
+	const action = rule?.action ?? access.defaultAction ?? 'allow';
+	if (action === 'allow') return null;
+	return rule?.status ?? access.status ?? 403;
+}
+
+/**
+ * Every criterion the rule sets must match. Unknown client attributes (no
+ * request.cf in local dev, no CF-Connecting-IP) never match a criterion.
+ */
+function ruleMatches(rule: AccessRule, key: string, client: AccessClient): boolean {
+	if (rule.keyPrefix !== undefined && !key.startsWith(rule.keyPrefix)) return false;
+	if (rule.countries && !(client.country && rule.countries.includes(client.country))) return false;
+	if (rule.continents && !(client.continent && rule.continents.includes(client.continent))) return false;
+	if (rule.asns && !(client.asn !== undefined && rule.asns.includes(client.asn))) return false;
+	if (rule.ips && !(client.ip && ipMatchesAny(client.ip, rule.ips))) return false;
+	return true;
+}
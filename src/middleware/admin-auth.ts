@@ -0,0 +1,24 @@
+import { createMiddleware } from 'hono/factory';
+import type { Env, AppVariables } from '../types';
+import { getBearerToken, timingSafeEqualStrings } from '../utils/crypto';
+
+/**
+ * Middleware guarding the /_admin API with `Authorization: Bearer <ADMIN_TOKEN>`.
+ * Without an ADMIN_TOKEN secret the admin API is disabled and answers 404.
+ */
+export const adminAuth = createMiddleware<{
+	Bindings: Env;
+	Variables: AppVariables;
+}>(async (c, next) => {
+	const adminToken = c.env.ADMIN_TOKEN;
+	if (!adminToken) {
+		return c.text('Not Found', 404);
+	}
+
+	const token = getBearerToken(c.req.raw);
+	if (!token || !timingSafeEqualStrings(token, adminToken)) {
+		return c.text('Unauthorized', 401, { 'WWW-Authenticate': 'Bearer' });
+	}
+
+	await next();
+});
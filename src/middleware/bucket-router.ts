@@ -1,67 +1,121 @@
 import { createMiddleware } from 'hono/factory';
-import type { Env, AppVariables, BucketRoute } from '../types';
+import type { Env, AppVariables, BucketRoute, BucketRoutingConfig } from '../types';
+import { matchHost, matchPathPattern, expandKeyTemplate, REST_PARAM } from '../utils/route-match';
+import { mergeCacheConfig } from '../utils/cache';
+import { resolveIndexKey } from '../utils/site';
+import { findRedirect } from '../services/redirects';
+import { getRoutes } from '../services/route-store';
 
 /**
  * Middleware that resolves the R2 bucket binding and object key based on
- * the BUCKET_ROUTING config (host + path prefix matching).
+ * the validated BUCKET_ROUTING config (host + path prefix / path pattern
+ * matching). Must run after configLoader. Requests matching one of the
+ * route's redirect rules are answered here with a 3xx.
  *
- * Sets c.var.bucket, c.var.bucketName, and c.var.objectKey.
+ * Sets c.var.bucket, c.var.bucketName, c.var.fallbackBuckets, c.var.objectKey, c.var.route,
+ * c.var.routeParams and c.var.cacheConfig (global CACHE + route overrides).
  */
 export const bucketRouter = createMiddleware<{
 	Bindings: Env;
 	Variables: AppVariables;
 }>(async (c, next) => {
-	const routing = c.env.BUCKET_ROUTING;
 	const url = new URL(c.req.url);
-	const hostname = url.hostname;
-	const pathname = url.pathname;
+	const { route: matched, params, bucketNames, key } = await resolveRoute(c.env, c.var.config.routing, url);
 
-	let matched: BucketRoute | undefined;
-
-	if (routing?.routes) {
-		// Find the first matching route (most-specific first in config)
-		for (const route of routing.routes) {
-			if (matchHost(route.host, hostname) && pathname.startsWith(route.pathPrefix)) {
-				matched = route;
-				break;
-			}
-		}
-	}
-
-	const bucketName = matched?.bucket ?? routing?.defaultBucket ?? 'R2';
+	// The first binding of the chain is the primary bucket; the rest are
+	// tried in order on a 404 (see getObjectViaR2)
+	const [bucketName, ...fallbackNames] = bucketNames;
 	const bucket = c.env[bucketName] as R2Bucket | undefined;
 
 	if (!bucket) {
 		return c.text(`R2 binding "${bucketName}" not found`, 500);
 	}
 
-	// Derive the object key: strip the path prefix if configured
-	let objectKey = pathname.slice(1); // remove leading /
-	if (matched?.stripPrefix && matched.pathPrefix !== '/') {
-		const prefixWithoutSlash = matched.pathPrefix.replace(/^\//, '');
-		if (objectKey.startsWith(prefixWithoutSlash)) {
-			objectKey = objectKey.slice(prefixWithoutSlash.length).replace(/^\//, '');
-		}
+	// Redirects win over the resolved key so renamed objects keep their URLs
+	if (matched?.redirects && (c.req.method === 'GET' || c.req.method === 'HEAD')) {
+		const redirect = await findRedirect({ config: matched.redirects, bucket, bucketName, url });
+		if (redirect) return redirect;
 	}
 
 	c.set('bucket', bucket);
 	c.set('bucketName', bucketName);
+	c.set(
+		'fallbackBuckets',
+		fallbackNames.map((name) => ({ name, bucket: c.env[name] as R2Bucket })),
+	);
 	c.set('r2BucketName', matched?.bucketName ?? '');
-	c.set('objectKey', objectKey);
+	c.set('objectKey', key);
+	c.set('route', matched);
+	c.set('routeParams', params);
+	c.set('cacheConfig', mergeCacheConfig(c.var.config.cache, matched?.cache));
 
 	await next();
 });
 
+export interface ResolvedRoute {
+	/** The matching route; undefined when the default bucket applies */
+	route?: BucketRoute;
+	params: Record<string, string>;
+	/** Bucket chain: primary binding first, then fallbacks */
+	bucketNames: string[];
+	key: string;
+}
+
 /**
- * Match a hostname against a pattern that supports leading wildcard:
- *   "*.erfi.dev"  matches  "cdn.erfi.dev", "videos.erfi.dev"
- *   "cdn.erfianugrah.com"  matches exactly
+ * Resolve a URL to its route, bucket chain and object key — what the
+ * middleware does per request, also used by the admin API to address
+ * objects by their public URLs.
  */
-function matchHost(pattern: string, hostname: string): boolean {
-	if (pattern === '*') return true;
-	if (pattern.startsWith('*.')) {
-		const suffix = pattern.slice(1); // ".erfi.dev"
-		return hostname.endsWith(suffix) && hostname.length > suffix.length;
+export async function resolveRoute(env: Env, routing: BucketRoutingConfig, url: URL): Promise<ResolvedRoute> {
+	// Routes come from BUCKET_ROUTING, or from KV when BUCKET_ROUTING.kv is set
+	const { routes } = await getRoutes(env, routing);
+
+	// Find the first matching route (most-specific first in config)
+	for (const route of routes) {
+		if (!matchHost(route.host, url.hostname)) continue;
+		const params = matchRoutePath(route, url.pathname);
+		if (params) {
+			return {
+				route,
+				params,
+				bucketNames: route.buckets ?? [route.bucket ?? routing.defaultBucket],
+				key: deriveObjectKey(route, url.pathname, params),
+			};
+		}
 	}
-	return pattern === hostname;
+	return { params: {}, bucketNames: [routing.defaultBucket], key: deriveObjectKey(undefined, url.pathname, {}) };
+}
+
+/**
+ * Match the request path against a route. Returns the captured params
+ * (empty for plain prefix routes except "rest") or null on no match.
+ */
+function matchRoutePath(route: BucketRoute, pathname: string): Record<string, string> | null {
+	if (route.pathPattern) {
+		return matchPathPattern(route.pathPattern, pathname);
+	}
+	const prefix = route.pathPrefix ?? '/';
+	if (!pathname.startsWith(prefix)) return null;
+	return { [REST_PARAM]: pathname.slice(prefix.length).replace(/^\//, '') };
+}
+
+/**
+ * Derive the R2 key for a request path:
+ *   1. keyTemplate, expanded with the route params
+ *   2. stripPrefix — the path after the prefix / pattern ("rest")
+ *   3. the path itself, without the leading "/"
+ * then, for site routes, append the index document to directory-style keys.
+ */
+function deriveObjectKey(route: BucketRoute | undefined, pathname: string, params: Record<string, string>): string {
+	const path = pathname.slice(1); // remove leading /
+
+	let key = path;
+	if (route?.keyTemplate) {
+		key = expandKeyTemplate(route.keyTemplate, { ...params, path });
+	} else if (route?.stripPrefix && (route.pathPattern || route.pathPrefix !== '/')) {
+		key = params[REST_PARAM] ?? path;
+	}
+
+	// Site mode: directory-style keys ("", "docs/") map to their index document
+	return route?.site ? resolveIndexKey(key, route.site) : key;
 }
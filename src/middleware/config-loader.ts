@@ -0,0 +1,23 @@
+import { createMiddleware } from 'hono/factory';
+import type { Env, AppVariables } from '../types';
+import { loadConfig, ConfigError } from '../utils/config';
+
+/**
+ * Middleware that validates the worker configuration (once per isolate) and
+ * exposes it as c.var.config. A broken config short-circuits every request
+ * with a 500 and the full list of issues so misdeploys are obvious.
+ */
+export const configLoader = createMiddleware<{
+	Bindings: Env;
+	Variables: AppVariables;
+}>(async (c, next) => {
+	try {
+		c.set('config', loadConfig(c.env));
+	} catch (err) {
+		if (!(err instanceof ConfigError)) throw err;
+		console.error(err.message);
+		return c.text(err.message, 500);
+	}
+
+	await next();
+});
@@ -0,0 +1,108 @@
+import { createMiddleware } from 'hono/factory';
+import type { Env, AppVariables, CorsConfig } from '../types';
+import { matchHost } from '../utils/route-match';
+import { TUS_EXPOSED_HEADERS } from '../services/tus';
+
+const DEFAULT_METHODS = ['GET', 'HEAD'];
+const DEFAULT_EXPOSED_HEADERS = ['Content-Length', 'Content-Range', 'ETag', 'Accept-Ranges'];
+const DEFAULT_MAX_AGE = 86400;
+
+/**
+ * Middleware applying the matched route's `cors` policy. Runs right after
+ * bucketRouter so every response — R2, S3, Cache API and KV hits, as well as
+ * auth / access denials — gets the same headers.
+ *
+ * CORS headers are added to the outgoing response only, never to what is
+ * stored in the Cache API / KV: cached entries stay origin-independent and
+ * the allowlist is applied per request. `Vary: Origin` is set whenever the
+ * headers depend on the request's Origin, for browser and downstream caches.
+ *
+ * Preflights (OPTIONS with Access-Control-Request-Method) on CORS routes are
+ * answered here; everything else falls through. Routes with tus uploads also
+ * expose the tus response headers, which clients can't work without.
+ */
+export const cors = createMiddleware<{
+	Bindings: Env;
+	Variables: AppVariables;
+}>(async (c, next) => {
+	const config = c.var.route?.cors;
+	if (!config) {
+		await next();
+		return;
+	}
+
+	const origin = c.req.header('Origin');
+	const allowOrigin = origin ? getAllowedOrigin(config, origin) : null;
+
+	const requestMethod = c.req.header('Access-Control-Request-Method');
+	if (c.req.method === 'OPTIONS' && origin && requestMethod) {
+		const methods = config.allowedMethods ?? DEFAULT_METHODS;
+		if (!allowOrigin || !methods.includes(requestMethod.toUpperCase())) {
+			console.log(`CORS preflight rejected for origin "${origin}" (${requestMethod})`);
+			return c.text('CORS preflight rejected', 403, { Vary: 'Origin' });
+		}
+
+		const requestHeaders = c.req.header('Access-Control-Request-Headers');
+		const headers = new Headers({
+			'Access-Control-Allow-Origin': allowOrigin,
+			'Access-Control-Allow-Methods': methods.join(', '),
+			'Access-Control-Max-Age': String(config.maxAge ?? DEFAULT_MAX_AGE),
+			Vary: 'Origin, Access-Control-Request-Headers',
+		});
+		const allowHeaders = config.allowedHeaders?.join(', ') ?? requestHeaders;
+		if (allowHeaders) headers.set('Access-Control-Allow-Headers', allowHeaders);
+		if (config.allowCredentials) headers.set('Access-Control-Allow-Credentials', 'true');
+		return new Response(null, { status: 204, headers });
+	}
+
+	await next();
+
+	const variesByOrigin = !isWildcard(config);
+	if (!allowOrigin && !variesByOrigin) return;
+
+	// Cache API / R2 responses can have immutable headers — rebuild before editing
+	const res = new Response(c.res.body, c.res);
+	if (allowOrigin) {
+		res.headers.set('Access-Control-Allow-Origin', allowOrigin);
+		const exposed = config.exposedHeaders ?? DEFAULT_EXPOSED_HEADERS;
+		const tus = c.var.route?.uploads?.tus ? TUS_EXPOSED_HEADERS.filter((name) => !exposed.includes(name)) : [];
+		res.headers.set('Access-Control-Expose-Headers', [...exposed, ...tus].join(', '));
+		if (config.allowCredentials) res.headers.set('Access-Control-Allow-Credentials', 'true');
+	}
+	if (variesByOrigin) appendVary(res.headers, 'Origin');
+	// Clear first — assigning over an existing c.res merges the old headers back in
+	c.res = undefined;
+	c.res = res;
+});
+
+/** "*" without credentials: the same response for every origin */
+function isWildcard(config: CorsConfig): boolean {
+	return config.allowedOrigins.includes('*') && !config.allowCredentials;
+}
+
+/** Value for Access-Control-Allow-Origin, or null if the origin isn't allowed */
+function getAllowedOrigin(config: CorsConfig, origin: string): string | null {
+	if (isWildcard(config)) return '*';
+	return config.allowedOrigins.some((pattern) => matchOrigin(pattern, origin)) ? origin : null;
+}
+
+/**
+ * Match "scheme://host[:port]" against a pattern of the same shape whose
+ * host may use the route host wildcards ("https://*.example.com").
+ */
+function matchOrigin(pattern: string, origin: string): boolean {
+	if (pattern === '*') return true;
+	const [patternScheme, patternHost] = pattern.toLowerCase().split('://');
+	const [originScheme, originHost] = origin.toLowerCase().split('://');
+	if (!originHost || patternScheme !== originScheme) return false;
+	return matchHost(patternHost, originHost);
+}
+
+function appendVary(headers: Headers, value: string): void {
+	const vary = headers.get('Vary');
+	if (!vary) {
+		headers.set('Vary', value);
+	} else if (!vary.split(',').some((v) => v.trim().toLowerCase() === value.toLowerCase())) {
+		headers.set('Vary', `${vary}, ${value}`);
+	}
+}
@@ -0,0 +1,60 @@
+import { createMiddleware } from 'hono/factory';
+import type { Env, AppVariables, HotlinkConfig } from '../types';
+import { matchHost } from '../utils/route-match';
+import { getErrorObject } from '../services/object';
+
+/**
+ * Middleware enforcing the matched route's `hotlink` policy. Runs after
+ * bucketRouter and before any cache lookup — cache entries are keyed by URL
+ * only, so the Referer has to be checked on every request.
+ */
+export const hotlinkProtection = createMiddleware<{
+	Bindings: Env;
+	Variables: AppVariables;
+}>(async (c, next) => {
+	const hotlink = c.var.route?.hotlink;
+	if (!hotlink || isAllowedReferer(hotlink, c.req.raw)) {
+		await next();
+		return;
+	}
+
+	const referer = c.req.header('Referer') ?? c.req.header('Origin');
+	console.log(`Hotlink blocked for key "${c.var.objectKey}" (referer "${referer}", action ${hotlink.action ?? 'forbid'})`);
+
+	switch (hotlink.action) {
+		case 'redirect':
+			return c.redirect(hotlink.redirectUrl!, 302);
+		case 'substitute': {
+			// Served with no-store: the substitute must never be cached under the original URL
+			const substitute = await getErrorObject({
+				buckets: [{ name: c.var.bucketName, bucket: c.var.bucket }, ...c.var.fallbackBuckets],
+				key: hotlink.substituteKey!,
+				status: 200,
+				storageConfig: c.var.config.storage,
+				cacheConfig: c.var.cacheConfig,
+			});
+			if (substitute) return substitute;
+			return c.text('Forbidden', 403);
+		}
+		default:
+			return c.text('Forbidden', 403);
+	}
+});
+
+/**
+ * Referer first, Origin as a fallback (some fetch()/CORS requests only send
+ * Origin). The request's own host always passes; unparseable values never do.
+ */
+function isAllowedReferer(hotlink: HotlinkConfig, request: Request): boolean {
+	const referer = request.headers.get('Referer') ?? request.headers.get('Origin');
+	if (!referer || referer === 'null') return hotlink.allowEmpty ?? true;
+
+	let refererHost: string;
+	try {
+		refererHost = new URL(referer).hostname;
+	} catch {
+		return false;
+	}
+	if (refererHost === new URL(request.url).hostname) return true;
+	return hotlink.allowedReferers.some((pattern) => matchHost(pattern, refererHost));
+}
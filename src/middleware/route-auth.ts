@@ -0,0 +1,76 @@
+import { createMiddleware } from 'hono/factory';
+import type { Context } from 'hono';
+import type { Env, AppVariables, JwtAuthConfig } from '../types';
+import { DEFAULT_SIGNING_SECRET_BINDING } from '../utils/config';
+import { verifySignedUrl } from '../utils/signed-url';
+import { getBearerToken } from '../utils/crypto';
+import { verifyJwt, JWT_ALGORITHMS } from '../utils/jwt';
+import { getJwks } from '../services/jwks';
+
+type AppContext = Context<{ Bindings: Env; Variables: AppVariables }>;
+
+/**
+ * Middleware enforcing the matched route's `auth` policy. Runs after
+ * bucketRouter and before any cache lookup, so cached objects are protected
+ * exactly like origin fetches. Routes without `auth` pass through.
+ */
+export const routeAuth = createMiddleware<{
+	Bindings: Env;
+	Variables: AppVariables;
+}>(async (c, next) => {
+	const auth = c.var.route?.auth;
+	if (!auth) {
+		await next();
+		return;
+	}
+
+	if (auth.type === 'jwt') {
+		const denied = await checkJwt(c, auth);
+		if (denied) return denied;
+		await next();
+		return;
+	}
+
+	// signed-url
+	const secret = c.env[auth.secretBinding ?? DEFAULT_SIGNING_SECRET_BINDING] as string;
+	const failure = await verifySignedUrl(new URL(c.req.url), secret);
+	if (failure) {
+		console.log(`Signed URL rejected for key "${c.var.objectKey}": ${failure}`);
+		return c.text('Forbidden', 403);
+	}
+
+	await next();
+});
+
+/**
+ * Verify the bearer token: 401 when it is missing or invalid, 403 when it is
+ * valid but its prefix claim doesn't cover the requested key.
+ */
+async function checkJwt(c: AppContext, auth: JwtAuthConfig): Promise<Response | null> {
+	const token = getBearerToken(c.req.raw);
+	if (!token) {
+		return c.text('Unauthorized', 401, { 'WWW-Authenticate': 'Bearer' });
+	}
+
+	const result = await verifyJwt(token, await getJwks(c.env, auth), {
+		algorithms: auth.algorithms ?? JWT_ALGORITHMS,
+		audience: auth.audience,
+		issuer: auth.issuer,
+		clockTolerance: auth.clockTolerance,
+	});
+	if ('error' in result) {
+		console.log(`JWT rejected for key "${c.var.objectKey}": ${result.error}`);
+		return c.text('Unauthorized', 401, { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+	}
+
+	if (auth.prefixClaim) {
+		const claim = result.payload[auth.prefixClaim];
+		const prefixes = typeof claim === 'string' ? [claim] : Array.isArray(claim) ? claim.filter((p) => typeof p === 'string') : [];
+		if (!prefixes.some((prefix) => c.var.objectKey.startsWith(prefix))) {
+			console.log(`JWT for "${result.payload.sub ?? 'unknown'}" may not read key "${c.var.objectKey}"`);
+			return c.text('Forbidden', 403);
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,26 @@
+import { createMiddleware } from 'hono/factory';
+import type { Env, AppVariables } from '../types';
+import { handleS3Request } from '../services/s3-api';
+
+/**
+ * Middleware answering every request on routes with `s3Api` as an S3 API
+ * request. Runs after bucketRouter (for the bucket chain and key) and the
+ * access rules, in place of object serving and uploads.
+ */
+export const s3Api = createMiddleware<{
+	Bindings: Env;
+	Variables: AppVariables;
+}>(async (c, next) => {
+	const s3Api = c.var.route?.s3Api;
+	if (!s3Api) {
+		await next();
+		return;
+	}
+
+	return handleS3Request({
+		request: c.req.raw,
+		buckets: [{ name: c.var.bucketName, bucket: c.var.bucket }, ...c.var.fallbackBuckets],
+		key: c.var.objectKey,
+		s3Api,
+	});
+});
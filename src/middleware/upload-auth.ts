@@ -0,0 +1,59 @@
+import { createMiddleware } from 'hono/factory';
+import type { Context } from 'hono';
+import type { Env, AppVariables } from '../types';
+import { TUS_PARAM } from '../services/tus';
+import { DEFAULT_SIGNING_SECRET_BINDING, DEFAULT_UPLOAD_TOKEN_BINDING } from '../utils/config';
+import { getBearerToken, timingSafeEqualStrings } from '../utils/crypto';
+import { verifySignedUrl } from '../utils/signed-url';
+
+type AppContext = Context<{ Bindings: Env; Variables: AppVariables }>;
+
+/**
+ * Middleware authorizing writes on routes with `uploads`. Runs after
+ * bucketRouter. Routes without `uploads` answer 405; requests without a
+ * valid bearer token or method-bound signed URL get 401.
+ *
+ * The upload status calls are GET and HEAD requests, but a read link must
+ * not open them: listing multipart parts takes a link signed for PUT. tus
+ * requests (creation, HEAD, PATCH, termination) all take one PATCH-bound
+ * link, which the created upload's Location carries over.
+ */
+export const uploadAuth = createMiddleware<{
+	Bindings: Env;
+	Variables: AppVariables;
+}>(async (c, next) => {
+	const uploads = c.var.route?.uploads;
+	if (!uploads) {
+		return c.text('Method Not Allowed', 405, { Allow: 'GET, HEAD, OPTIONS' });
+	}
+
+	const token = getBearerToken(c.req.raw);
+	if (token) {
+		const expected = c.env[uploads.tokenBinding ?? DEFAULT_UPLOAD_TOKEN_BINDING];
+		if (typeof expected === 'string' && expected && timingSafeEqualStrings(token, expected)) {
+			await next();
+			return;
+		}
+		console.log(`Upload rejected for key "${c.var.objectKey}": bad bearer token`);
+	} else if (uploads.allowSignedUrls) {
+		const url = new URL(c.req.url);
+		const secret = c.env[uploads.secretBinding ?? DEFAULT_SIGNING_SECRET_BINDING] as string;
+		const failure = await verifySignedUrl(url, secret, { method: signedMethod(c) });
+		if (!failure) {
+			await next();
+			return;
+		}
+		console.log(`Upload rejected for key "${c.var.objectKey}": ${failure}`);
+	}
+
+	return c.text('Unauthorized', 401, { 'WWW-Authenticate': 'Bearer' });
+});
+
+/** Method a signed link for this request must be bound to */
+function signedMethod(c: AppContext): string {
+	const method = c.req.method;
+	if (method === 'GET' && c.req.query('uploadId') !== undefined) return 'PUT';
+	const tusCreation = method === 'POST' && c.req.header('Tus-Resumable') !== undefined;
+	if (c.var.route?.uploads?.tus && (tusCreation || c.req.query(TUS_PARAM) !== undefined)) return 'PATCH';
+	return method;
+}
@@ -0,0 +1,315 @@
+/**
+ * Admin API, mounted at /_admin and guarded by `Authorization: Bearer <ADMIN_TOKEN>`.
+ *
+ * ## Routing table
+ *
+ * | Method | Path | Body | Description |
+ * |--------|------|------|-------------|
+ * | GET | `/_admin/routes` | — | List routes and their source (`kv` or `env`) |
+ * | PUT | `/_admin/routes` | `BucketRoute[]` | Replace the whole table |
+ * | POST | `/_admin/routes?index=N` | `BucketRoute` | Insert a route (appended without `index`) |
+ * | PUT | `/_admin/routes/order` | `{ "order": number[] }` | Reorder: new position → old index |
+ * | DELETE | `/_admin/routes/:index` | — | Delete a route |
+ *
+ * Writes require `BUCKET_ROUTING.kv`. The first write seeds KV from the env
+ * routes. Every write is validated with the same rules as BUCKET_ROUTING;
+ * invalid tables are rejected with 400 and the list of issues.
+ *
+ * ## Objects
+ *
+ * | Method | Path | Body | Description |
+ * |--------|------|------|-------------|
+ * | POST | `/_admin/objects/copy` | `CopyRequest` | Copy an object, or every object under a prefix |
+ * | POST | `/_admin/objects/move` | `CopyRequest` | Same, then delete and purge the source |
+ *
+ * Source and destination are public URLs, resolved through the routing table
+ * to a bucket chain and key; URLs ending in "/" address a prefix. Prefixes are
+ * processed `limit` keys per request — pass the returned `cursor` to continue.
+ * Answers 200 with per-key results, or 207 if any key failed.
+ *
+ * ## Cache
+ *
+ * | Method | Path | Body | Description |
+ * |--------|------|------|-------------|
+ * | POST | `/_admin/purge` | `{ urls?, prefixes?, tags?, zone?, limit?, cursor? }` | Purge URLs, URL prefixes and cache tags |
+ * | GET | `/_admin/cache?tag=T` or `?prefix=URL` | — | List KV-cached URLs from the index |
+ * | DELETE | `/_admin/cache?tag=T` or `?prefix=URL` | — | Delete them (KV entries, chunks, index; Cache API of this colo) |
+ *
+ * Purges the Cache API of this colo and KV (see services/purge.ts) and, with
+ * PURGE_ZONE_ID and PURGE_API_TOKEN set, the zone's edge cache — unless
+ * `"zone": false`. Answers 200, or 207 if the zone purge failed. Prefixes and
+ * tags are purged up to `limit` KV index entries per request (default 100,
+ * max 1000); send the request again with the returned `cursor` to continue.
+ *
+ * `/_admin/cache` works on one page of `limit` index entries (default 100,
+ * max 1000); pass the returned `cursor` to continue. Requires CDN_CACHE.
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { Env, AppVariables, BucketRoute } from '../types';
+import { adminAuth } from '../middleware/admin-auth';
+import { getRoutes, saveRoutes } from '../services/route-store';
+import { resolveRoute } from '../middleware/bucket-router';
+import { mergeCacheConfig } from '../utils/cache';
+import { buildCacheKey } from '../utils/cache-key';
+import { copyObject, copyPrefix } from '../services/copy';
+import type { CopyLocation, CopyResult } from '../services/copy';
+import { cloudflareZonePurgeClient, purgeCache, purgeIndexed } from '../services/purge';
+import { kvCacheIndexList } from '../services/kv-cache';
+import type { KVCacheIndexQuery } from '../services/kv-cache';
+import type { PurgeRequest, ZonePurgeClient } from '../services/purge';
+
+type AdminContext = Context<{ Bindings: Env; Variables: AppVariables }>;
+
+interface CopyRequest {
+	source: string;
+	destination: string;
+	/** Replace existing destination objects. Default true */
+	overwrite?: boolean;
+	/** Keys per request for prefixes, 1-1000. Default 100 */
+	limit?: number;
+	cursor?: string;
+}
+
+const DEFAULT_COPY_LIMIT = 100;
+const MAX_COPY_LIMIT = 1000;
+const DEFAULT_INDEX_LIMIT = 100;
+const MAX_INDEX_LIMIT = 1000;
+
+const admin = new Hono<{ Bindings: Env; Variables: AppVariables }>();
+
+admin.use('*', adminAuth);
+
+// ── Routing table ─────────────────────────────────────────────────────────────
+
+admin.get('/routes', async (c) => {
+	const { routes, source } = await getRoutes(c.env, c.var.config.routing);
+	return c.json({ source, routes });
+});
+
+admin.put('/routes', async (c) => {
+	const body = await readJson(c);
+	if (body === undefined) return c.json({ error: 'Invalid JSON body' }, 400);
+	return writeRoutes(c, body);
+});
+
+admin.post('/routes', async (c) => {
+	const route = await readJson(c);
+	if (route === undefined) return c.json({ error: 'Invalid JSON body' }, 400);
+
+	const { routes } = await getRoutes(c.env, c.var.config.routing);
+	const indexParam = c.req.query('index');
+	const index = indexParam === undefined ? routes.length : Number(indexParam);
+	if (!Number.isInteger(index) || index < 0 || index > routes.length) {
+		return c.json({ error: `index must be an integer between 0 and ${routes.length}` }, 400);
+	}
+
+	const updated: unknown[] = [...routes];
+	updated.splice(index, 0, route);
+	return writeRoutes(c, updated, 201);
+});
+
+admin.put('/routes/order', async (c) => {
+	const body = (await readJson(c)) as { order?: unknown } | undefined;
+	const { routes } = await getRoutes(c.env, c.var.config.routing);
+
+	const order = body?.order;
+	const isPermutation =
+		Array.isArray(order) &&
+		order.length === routes.length &&
+		new Set(order).size === order.length &&
+		order.every((i) => Number.isInteger(i) && i >= 0 && i < routes.length);
+	if (!isPermutation) {
+		return c.json({ error: `order must list each current route index (0-${routes.length - 1}) exactly once` }, 400);
+	}
+
+	return writeRoutes(c, (order as number[]).map((i) => routes[i]));
+});
+
+admin.delete('/routes/:index', async (c) => {
+	const { routes } = await getRoutes(c.env, c.var.config.routing);
+	const index = Number(c.req.param('index'));
+	if (!Number.isInteger(index) || index < 0 || index >= routes.length) {
+		return c.json({ error: `No route at index ${c.req.param('index')}` }, 404);
+	}
+
+	return writeRoutes(c, routes.filter((_, i) => i !== index));
+});
+
+// ── Objects ───────────────────────────────────────────────────────────────────
+
+admin.post('/objects/:operation{copy|move}', async (c) => {
+	const body = (await readJson(c)) as Partial<CopyRequest> | undefined;
+	if (typeof body?.source !== 'string' || typeof body.destination !== 'string') {
+		return c.json({ error: 'source and destination must be URLs' }, 400);
+	}
+	const { overwrite, limit = DEFAULT_COPY_LIMIT, cursor } = body;
+	if (overwrite !== undefined && typeof overwrite !== 'boolean') return c.json({ error: 'overwrite must be a boolean' }, 400);
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_COPY_LIMIT) {
+		return c.json({ error: `limit must be an integer between 1 and ${MAX_COPY_LIMIT}` }, 400);
+	}
+	if (cursor !== undefined && typeof cursor !== 'string') return c.json({ error: 'cursor must be a string' }, 400);
+
+	const sourceUrl = URL.parse(body.source);
+	const destinationUrl = URL.parse(body.destination);
+	if (!sourceUrl || !destinationUrl) return c.json({ error: 'source and destination must be URLs' }, 400);
+
+	const isPrefix = sourceUrl.pathname.endsWith('/');
+	if (isPrefix !== destinationUrl.pathname.endsWith('/')) {
+		return c.json({ error: 'source and destination must both be objects or both be prefixes (ending in "/")' }, 400);
+	}
+
+	const source = await resolveCopyLocation(c, sourceUrl, isPrefix);
+	const destination = await resolveCopyLocation(c, destinationUrl, isPrefix);
+	if (typeof source === 'string') return c.json({ error: `source: ${source}` }, 400);
+	if (typeof destination === 'string') return c.json({ error: `destination: ${destination}` }, 400);
+
+	// Any bucket of the source chain is listed, so writes into one of them count
+	const sourceBuckets = [source.bucketName, ...(source.fallbackBuckets ?? []).map(({ name }) => name)];
+	const overlapping =
+		sourceBuckets.includes(destination.bucketName) && (source.key.startsWith(destination.key) || destination.key.startsWith(source.key));
+	if (isPrefix && overlapping) {
+		return c.json({ error: 'source and destination prefixes overlap in the same bucket' }, 400);
+	}
+
+	const opts = { move: c.req.param('operation') === 'move', overwrite, kvCache: c.env.CDN_CACHE };
+	const { results, cursor: next } = isPrefix
+		? await copyPrefix(source, destination, { ...opts, limit, cursor })
+		: { results: [await copyObject(source, destination, opts)], cursor: undefined };
+
+	const count = (...statuses: CopyResult['status'][]) => results.filter((r) => statuses.includes(r.status)).length;
+	const failed = count('failed');
+	return c.json(
+		{ results, copied: count('copied', 'moved'), skipped: count('skipped'), failed, ...(next ? { cursor: next } : {}) },
+		failed ? 207 : 200,
+	);
+});
+
+// ── Cache ─────────────────────────────────────────────────────────────────────
+
+admin.post('/purge', async (c) => {
+	const body = (await readJson(c)) as Partial<Record<keyof PurgeRequest | 'zone' | 'limit' | 'cursor', unknown>> | undefined;
+	if (typeof body !== 'object' || body === null) return c.json({ error: 'Invalid JSON body' }, 400);
+
+	const { urls = [], prefixes = [], tags = [], zone, limit = DEFAULT_INDEX_LIMIT, cursor } = body;
+	const isHttpUrl = (v: unknown) => typeof v === 'string' && /^https?:$/.test(URL.parse(v)?.protocol ?? '');
+	if (!isArrayOf(urls, isHttpUrl)) return c.json({ error: 'urls must be an array of http(s) URLs' }, 400);
+	if (!isArrayOf(prefixes, isHttpUrl)) return c.json({ error: 'prefixes must be an array of http(s) URLs' }, 400);
+	if (!isArrayOf(tags, (v) => typeof v === 'string' && v !== '')) {
+		return c.json({ error: 'tags must be an array of non-empty strings' }, 400);
+	}
+	if (!urls.length && !prefixes.length && !tags.length) return c.json({ error: 'Nothing to purge: set urls, prefixes or tags' }, 400);
+	if (zone !== undefined && typeof zone !== 'boolean') return c.json({ error: 'zone must be a boolean' }, 400);
+	if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_INDEX_LIMIT) {
+		return c.json({ error: `limit must be an integer between 1 and ${MAX_INDEX_LIMIT}` }, 400);
+	}
+	if (cursor !== undefined && typeof cursor !== 'string') return c.json({ error: 'cursor must be a string' }, 400);
+
+	// Match the keys the URLs were cached under (dropped params, scheme, host)
+	const report = await purgeCache(
+		{
+			urls: await Promise.all(urls.map((url) => toCacheKey(c, url))),
+			prefixes: await Promise.all(prefixes.map((prefix) => toCacheKey(c, prefix))),
+			tags,
+		},
+		{ kvCache: c.env.CDN_CACHE, zone: zone === false ? undefined : getZonePurgeClient(c), limit, cursor },
+	);
+	return c.json(report, report.zone === 'failed' ? 207 : 200);
+});
+
+admin.get('/cache', async (c) => {
+	const kvCache = c.env.CDN_CACHE;
+	if (!kvCache) return c.json({ error: 'KV cache is not configured (CDN_CACHE)' }, 409);
+	const query = await readIndexQuery(c);
+	if (typeof query === 'string') return c.json({ error: query }, 400);
+
+	const { cacheKeys, cursor } = await kvCacheIndexList(kvCache, query.query, { limit: query.limit, cursor: query.cursor });
+	return c.json({ entries: cacheKeys, ...(cursor ? { cursor } : {}) });
+});
+
+admin.delete('/cache', async (c) => {
+	const kvCache = c.env.CDN_CACHE;
+	if (!kvCache) return c.json({ error: 'KV cache is not configured (CDN_CACHE)' }, 409);
+	const query = await readIndexQuery(c);
+	if (typeof query === 'string') return c.json({ error: query }, 400);
+
+	return c.json(await purgeIndexed(query.query, { kvCache, limit: query.limit, cursor: query.cursor }));
+});
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Resolve a public URL to its route's bucket chain and key; an error message if it can't be copied */
+async function resolveCopyLocation(c: AdminContext, url: URL, isPrefix: boolean): Promise<CopyLocation | string> {
+	const { route, bucketNames, key } = await resolveRoute(c.env, c.var.config.routing, url);
+	const [bucketName, ...fallbackNames] = bucketNames;
+	const bucket = c.env[bucketName] as R2Bucket | undefined;
+	if (!bucket) return `R2 binding "${bucketName}" not found`;
+	const fallbackBuckets = fallbackNames.map((name) => ({ name, bucket: c.env[name] as R2Bucket }));
+
+	const base = url.origin + url.pathname;
+	const { cacheKey } = mergeCacheConfig(c.var.config.cache, route?.cache);
+	if (isPrefix) {
+		// Directory keys of site routes resolve to their index document
+		return { bucket, bucketName, fallbackBuckets, key: key.slice(0, key.lastIndexOf('/') + 1), url: base, cacheKey };
+	}
+	if (!key) return 'URL does not address an object';
+	return { bucket, bucketName, fallbackBuckets, key, url: base, cacheKey };
+}
+
+/** A URL (or URL prefix) normalized by its route's cache key policy */
+async function toCacheKey(c: AdminContext, url: string): Promise<string> {
+	const { route } = await resolveRoute(c.env, c.var.config.routing, new URL(url));
+	return buildCacheKey(url, mergeCacheConfig(c.var.config.cache, route?.cache).cacheKey);
+}
+
+/** Cloudflare's purge API for the configured zone, if any */
+function getZonePurgeClient(c: AdminContext): ZonePurgeClient | undefined {
+	const { PURGE_ZONE_ID, PURGE_API_TOKEN } = c.env;
+	return PURGE_ZONE_ID && PURGE_API_TOKEN ? cloudflareZonePurgeClient(PURGE_ZONE_ID, PURGE_API_TOKEN) : undefined;
+}
+
+async function writeRoutes(c: AdminContext, routes: unknown, status: 200 | 201 = 200): Promise<Response> {
+	const kvConfig = c.var.config.routing.kv;
+	if (!kvConfig) {
+		return c.json({ error: 'Routing table is read-only: BUCKET_ROUTING.kv is not configured' }, 409);
+	}
+
+	const issues = await saveRoutes(c.env, kvConfig, routes);
+	if (issues.length) {
+		return c.json({ error: 'Invalid routing table', issues }, 400);
+	}
+	return c.json({ source: 'kv', routes: routes as BucketRoute[] }, status);
+}
+
+/**
+ * `?tag=` or `?prefix=` plus `limit` and `cursor`; an error message if
+ * invalid. The prefix is normalized like the cache keys it is matched against.
+ */
+async function readIndexQuery(c: AdminContext): Promise<{ query: KVCacheIndexQuery; limit: number; cursor?: string } | string> {
+	const { tag, prefix, cursor } = c.req.query();
+	if ((tag === undefined) === (prefix === undefined)) return 'Set exactly one of tag or prefix';
+	if (tag === '') return 'tag must not be empty';
+	if (prefix !== undefined && !/^https?:$/.test(URL.parse(prefix)?.protocol ?? '')) return 'prefix must be an http(s) URL';
+
+	const limit = Number(c.req.query('limit') ?? DEFAULT_INDEX_LIMIT);
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_INDEX_LIMIT) {
+		return `limit must be an integer between 1 and ${MAX_INDEX_LIMIT}`;
+	}
+	return { query: tag !== undefined ? { tag } : { prefix: await toCacheKey(c, prefix!) }, limit, cursor };
+}
+
+function isArrayOf(value: unknown, check: (v: unknown) => boolean): value is string[] {
+	return Array.isArray(value) && value.every(check);
+}
+
+/** Parse the request body as JSON; undefined if it isn't valid JSON */
+async function readJson(c: AdminContext): Promise<unknown> {
+	try {
+		return await c.req.json();
+	} catch {
+		return undefined;
+	}
+}
+
+export default admin;
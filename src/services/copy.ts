@@ -0,0 +1,192 @@
+/**
+ * Server-side copy and move of objects, within a bucket or across buckets.
+ *
+ * Objects are streamed from `bucket.get()` into `bucket.put()` — never
+ * buffered — with their httpMetadata and customMetadata. Objects above
+ * `multipartThreshold` are copied as a multipart upload, one ranged read per
+ * part, pinned to the source ETag so a concurrent overwrite fails the copy
+ * instead of mixing two versions.
+ *
+ * Locations carry the public URL of the object (or of the directory, for
+ * prefixes) so the cached copies can be purged: the destination's after
+ * every copy, the source's after a move.
+ *
+ * Sources are read through their route's whole bucket chain, as a GET would
+ * serve them, and a move deletes the source from every bucket of the chain.
+ * Prefixes are listed one bucket of the chain after the other; the cursor
+ * says which bucket comes next.
+ */
+
+import type { CacheKeyConfig, NamedBucket } from '../types';
+import { purgeUrl } from './purge';
+import { encodeKeyPath } from '../utils/route-match';
+import { formatListCursor, parseListCursor } from '../utils/cursor';
+
+const MIB = 1024 * 1024;
+const DEFAULT_MULTIPART_THRESHOLD = 512 * MIB;
+const DEFAULT_PART_SIZE = 64 * MIB;
+
+export interface CopyLocation {
+	/** Primary bucket of the route: destinations are written here */
+	bucket: R2Bucket;
+	/** Binding name, for reporting and same-bucket checks */
+	bucketName: string;
+	/** The rest of the route's bucket chain, read (and on move, cleared) after `bucket` */
+	fallbackBuckets?: NamedBucket[];
+	/** Object key, or the key prefix ending in "/" */
+	key: string;
+	/** Public URL of `key` */
+	url: string;
+	/** Cache key policy of the URL's route, for purging it */
+	cacheKey?: CacheKeyConfig;
+}
+
+export interface CopyResult {
+	source: string;
+	destination: string;
+	status: 'copied' | 'moved' | 'skipped' | 'failed';
+	size?: number;
+	error?: string;
+}
+
+export interface CopyOptions {
+	/** Delete (and purge) the source after copying. Default false */
+	move?: boolean;
+	/** Replace existing destination objects. Default true; otherwise they're skipped */
+	overwrite?: boolean;
+	kvCache?: KVNamespace;
+	multipartThreshold?: number;
+	partSize?: number;
+}
+
+// ── Single object ────────────────────────────────────────────────────────────
+
+export async function copyObject(source: CopyLocation, destination: CopyLocation, opts: CopyOptions = {}): Promise<CopyResult> {
+	const result: CopyResult = { source: source.key, destination: destination.key, status: 'failed' };
+	if (source.bucketName === destination.bucketName && source.key === destination.key) {
+		return { ...result, error: 'Source and destination are the same object' };
+	}
+
+	try {
+		if (opts.overwrite === false && (await destination.bucket.head(destination.key))) {
+			return { ...result, status: 'skipped', error: 'Destination exists' };
+		}
+
+		const chain = getBucketChain(source);
+		let from: NamedBucket | undefined;
+		let head: R2Object | null = null;
+		for (from of chain) {
+			head = await from.bucket.head(source.key);
+			if (head) break;
+		}
+		if (!from || !head) return { ...result, error: 'Not Found' };
+
+		const reader = { ...source, bucket: from.bucket, bucketName: from.name };
+		const threshold = opts.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD;
+		const copied =
+			head.size > threshold
+				? await copyMultipart(reader, destination, head, opts.partSize ?? DEFAULT_PART_SIZE)
+				: await copySingle(reader, destination, head);
+		if (!copied) return { ...result, error: 'Source changed during copy' };
+
+		await purgeUrl(destination.url, opts.kvCache, destination.cacheKey);
+		if (opts.move) {
+			// Left in a later bucket, the old URL would still serve it; the
+			// destination itself may sit in the chain under the same key
+			const stale = chain.filter(({ name }) => name !== destination.bucketName || source.key !== destination.key);
+			await Promise.all(stale.map(({ bucket }) => bucket.delete(source.key)));
+			await purgeUrl(source.url, opts.kvCache, source.cacheKey);
+		}
+
+		console.log(`${opts.move ? 'Moved' : 'Copied'} ${from.name}:"${source.key}" to ${destination.bucketName}:"${destination.key}"`);
+		return { ...result, status: opts.move ? 'moved' : 'copied', size: head.size };
+	} catch (err) {
+		console.error(`Copy of ${source.bucketName}:"${source.key}" failed:`, err);
+		return { ...result, error: err instanceof Error ? err.message : String(err) };
+	}
+}
+
+/** Stream the whole object in one put; false if the source changed since `head` */
+async function copySingle(source: CopyLocation, destination: CopyLocation, head: R2Object): Promise<boolean> {
+	const object = await source.bucket.get(source.key, { onlyIf: { etagMatches: head.etag } });
+	if (!object || !('body' in object)) return false;
+
+	await destination.bucket.put(destination.key, object.body, {
+		httpMetadata: object.httpMetadata,
+		customMetadata: object.customMetadata,
+	});
+	return true;
+}
+
+/** One ranged read per part; the upload is aborted if anything fails */
+async function copyMultipart(source: CopyLocation, destination: CopyLocation, head: R2Object, partSize: number): Promise<boolean> {
+	const upload = await destination.bucket.createMultipartUpload(destination.key, {
+		httpMetadata: head.httpMetadata,
+		customMetadata: head.customMetadata,
+	});
+
+	try {
+		const parts: R2UploadedPart[] = [];
+		for (let offset = 0; offset < head.size; offset += partSize) {
+			const length = Math.min(partSize, head.size - offset);
+			const object = await source.bucket.get(source.key, { range: { offset, length }, onlyIf: { etagMatches: head.etag } });
+			if (!object || !('body' in object)) {
+				await upload.abort();
+				return false;
+			}
+			parts.push(await upload.uploadPart(parts.length + 1, object.body));
+		}
+		await upload.complete(parts);
+		return true;
+	} catch (err) {
+		await upload.abort().catch(() => {});
+		throw err;
+	}
+}
+
+// ── Prefix ───────────────────────────────────────────────────────────────────
+
+/**
+ * Copy every object under `source.key` to the same relative key under
+ * `destination.key`, one page of up to `limit` keys per call. Returns the
+ * results and, if more keys remain, the cursor for the next call.
+ *
+ * The chain's buckets are listed in turn; keys already found in an earlier
+ * bucket were handled with it and are left out.
+ */
+export async function copyPrefix(
+	source: CopyLocation,
+	destination: CopyLocation,
+	opts: CopyOptions & { limit: number; cursor?: string },
+): Promise<{ results: CopyResult[]; cursor?: string }> {
+	const chain = getBucketChain(source);
+	const { index, cursor } = parseListCursor(opts.cursor);
+	if (index >= chain.length) return { results: [] };
+
+	const listed = await chain[index].bucket.list({ prefix: source.key, limit: opts.limit, cursor });
+	const earlier = chain.slice(0, index);
+
+	const results: CopyResult[] = [];
+	for (const object of listed.objects) {
+		const heads = await Promise.all(earlier.map(({ bucket }) => bucket.head(object.key)));
+		if (heads.some(Boolean)) continue;
+
+		const relative = object.key.slice(source.key.length);
+		results.push(
+			await copyObject(
+				{ ...source, key: object.key, url: source.url + encodeKeyPath(relative) },
+				{ ...destination, key: destination.key + relative, url: destination.url + encodeKeyPath(relative) },
+				opts,
+			),
+		);
+	}
+
+	if (listed.truncated) return { results, cursor: formatListCursor(index, listed.cursor) };
+	return { results, cursor: index + 1 < chain.length ? formatListCursor(index + 1) : undefined };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function getBucketChain(location: CopyLocation): NamedBucket[] {
+	return [{ name: location.bucketName, bucket: location.bucket }, ...(location.fallbackBuckets ?? [])];
+}
@@ -0,0 +1,150 @@
+/**
+ * Browser form uploads: `POST` a multipart/form-data body to a directory URL
+ * on a route with `uploads`, and every file field is stored under a key
+ * built from `formKeyTemplate`:
+ *
+ * | Placeholder | Value |
+ * |-------------|-------|
+ * | `{prefix}` | Key of the directory posted to, e.g. `uploads/` for `POST /uploads/` |
+ * | `{date}` | Upload date, `YYYY-MM-DD` (UTC) |
+ * | `{uuid}` | Random UUID |
+ * | `{filename}` | The file's name, reduced to `[A-Za-z0-9._-]` |
+ *
+ * The form is parsed in memory (Workers can't stream multipart bodies), so
+ * the body needs a Content-Length of at most `maxSize` plus
+ * `FORM_BODY_OVERHEAD` before it is read: the files of one form share that
+ * allowance. `maxSize` is also applied to each file, and every file is
+ * checked before any is written: one rejected file fails the whole request.
+ * Text fields are ignored.
+ */
+
+import type { CacheKeyConfig, UploadConfig } from '../types';
+import { encodeKeyPath, expandKeyTemplate } from '../utils/route-match';
+import { getContentType } from '../utils/content-type';
+import { checkBodyLength, isAllowedUploadType, payloadTooLarge, textResponse } from './upload';
+import { purgeUrl } from './purge';
+
+export const DEFAULT_FORM_KEY_TEMPLATE = '{prefix}{date}/{uuid}-{filename}';
+
+const MAX_FILENAME_LENGTH = 100;
+
+/** Room for part headers, boundaries and text fields on top of `maxSize` */
+const FORM_BODY_OVERHEAD = 64 * 1024;
+
+export interface StoredFormFile {
+	/** Form field the file came from */
+	field: string;
+	/** Original file name as sent by the browser */
+	filename: string;
+	key: string;
+	/** Where the object is served, or null if the key isn't under the posted directory */
+	url: string | null;
+	size: number;
+	etag: string;
+	contentType: string;
+}
+
+interface PendingFile {
+	field: string;
+	file: File;
+	key: string;
+	contentType: string;
+}
+
+export function isFormUpload(request: Request): boolean {
+	return request.headers.get('Content-Type')?.toLowerCase().startsWith('multipart/form-data') ?? false;
+}
+
+/**
+ * Store the files of a form POST. `prefix` is the key of the directory
+ * posted to and `baseUrl` its URL; both end in "/". Returns 201 with
+ * `{ files: StoredFormFile[] }`, 400 for unreadable forms or forms without
+ * files, 411 without a Content-Length, and 413 / 415 if the body or a file
+ * breaks the route's limits.
+ */
+export async function formUpload(opts: {
+	bucket: R2Bucket;
+	request: Request;
+	uploads: UploadConfig;
+	prefix: string;
+	baseUrl: string;
+	kvCache?: KVNamespace;
+	/** The route's cache key policy, for purging the stored files' URLs */
+	cacheKey?: CacheKeyConfig;
+}): Promise<Response> {
+	const { bucket, request, uploads, prefix, baseUrl, kvCache, cacheKey } = opts;
+
+	const bodyLimit = uploads.maxSize !== undefined ? uploads.maxSize + FORM_BODY_OVERHEAD : undefined;
+	const rejected = checkBodyLength(request, bodyLimit);
+	if (rejected) return rejected;
+
+	let form: FormData;
+	try {
+		form = await request.formData();
+	} catch (err) {
+		console.log(`Form upload rejected: ${err instanceof Error ? err.message : err}`);
+		return textResponse('Malformed multipart/form-data body', 400);
+	}
+
+	const template = uploads.formKeyTemplate ?? DEFAULT_FORM_KEY_TEMPLATE;
+	const date = new Date().toISOString().slice(0, 10);
+	const pending: PendingFile[] = [];
+
+	for (const [field, value] of form) {
+		// Browsers send an empty, nameless part for file inputs left blank
+		if (typeof value === 'string' || (!value.name && !value.size)) continue;
+
+		const filename = sanitizeFilename(value.name);
+		const contentType = !value.type || value.type === 'application/octet-stream' ? getContentType(filename) : value.type;
+		if (uploads.maxSize !== undefined && value.size > uploads.maxSize) {
+			console.log(`Form upload rejected: "${value.name}" is ${value.size} bytes`);
+			return payloadTooLarge(uploads.maxSize);
+		}
+		if (!isAllowedUploadType(contentType, uploads)) {
+			console.log(`Form upload rejected: "${value.name}" has type ${contentType}`);
+			return textResponse('Unsupported Media Type', 415);
+		}
+
+		const key = expandKeyTemplate(template, { prefix, date, uuid: crypto.randomUUID(), filename });
+		pending.push({ field, file: value, key, contentType });
+	}
+
+	if (!pending.length) return textResponse('No files in form', 400);
+
+	const files: StoredFormFile[] = [];
+	for (const { field, file, key, contentType } of pending) {
+		const object = await bucket.put(key, file, { httpMetadata: { contentType } });
+		const url = key.startsWith(prefix) ? baseUrl + encodeKeyPath(key.slice(prefix.length)) : null;
+		// Templates without {uuid} can overwrite an existing object
+		if (url) await purgeUrl(url, kvCache, cacheKey);
+
+		console.log(`Form upload stored "${file.name}" as "${key}" (${object.size} bytes)`);
+		files.push({ field, filename: file.name, key, url, size: object.size, etag: object.httpEtag, contentType });
+	}
+
+	return Response.json({ files }, { status: 201 });
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Reduce a client-supplied file name to a safe key segment: no directories
+ * (including Windows "C:\fakepath\"), ASCII letters, digits, ".", "_" and
+ * "-" only, at most 100 characters with the extension kept.
+ */
+export function sanitizeFilename(name: string): string {
+	const base = name.split(/[/\\]/).pop() ?? '';
+	const cleaned = base
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.replace(/[^A-Za-z0-9._-]+/g, '-')
+		.replace(/-{2,}/g, '-')
+		.replace(/-?\.-?/g, '.')
+		.replace(/^[-.]+|[-.]+$/g, '');
+	if (!cleaned) return 'file';
+	if (cleaned.length <= MAX_FILENAME_LENGTH) return cleaned;
+
+	const dot = cleaned.lastIndexOf('.');
+	const ext = dot > 0 && cleaned.length - dot <= 16 ? cleaned.slice(dot) : '';
+	return cleaned.slice(0, MAX_FILENAME_LENGTH - ext.length) + ext;
+}
@@ -0,0 +1,49 @@
+/**
+ * JWKS loading for `auth: { type: "jwt" }` routes.
+ *
+ * Keys come from a var/secret (`jwksBinding`, default "JWKS") or from a KV
+ * key (`jwksKv`). The var/secret form was already validated at config load;
+ * the KV form is read per isolate and cached for `cacheTtl` seconds, so key
+ * rotation is a KV write that takes effect within that window.
+ */
+
+import type { Env, JwtAuthConfig } from '../types';
+import { DEFAULT_JWKS_BINDING } from '../utils/config';
+import { parseJwks } from '../utils/jwt';
+
+/** Default per-isolate cache lifetime of a KV JWKS (seconds) */
+const DEFAULT_CACHE_TTL = 300;
+
+interface CachedJwks {
+	keys: JsonWebKey[];
+	expiresAt: number;
+}
+
+// Keyed by "{binding}:{key}"
+const jwksCache = new Map<string, CachedJwks>();
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Keys to verify the route's tokens against; empty if none could be loaded. */
+export async function getJwks(env: Env, auth: JwtAuthConfig): Promise<JsonWebKey[]> {
+	if (!auth.jwksKv) return parseJwks(env[auth.jwksBinding ?? DEFAULT_JWKS_BINDING]) ?? [];
+
+	const { binding, key, cacheTtl } = auth.jwksKv;
+	const cacheKey = `${binding}:${key}`;
+	const cached = jwksCache.get(cacheKey);
+	if (cached && cached.expiresAt > Date.now()) return cached.keys;
+
+	let keys: JsonWebKey[] = [];
+	try {
+		const value = await (env[binding] as KVNamespace).get(key);
+		keys = (value !== null && parseJwks(value)) || [];
+		if (!keys.length) console.error(`JWKS in KV "${key}" is missing or invalid`);
+	} catch (err) {
+		console.error(`Failed to read JWKS from KV "${key}":`, err);
+		// Keep serving with the last good keys rather than locking everyone out
+		if (cached) return cached.keys;
+	}
+
+	jwksCache.set(cacheKey, { keys, expiresAt: Date.now() + (cacheTtl ?? DEFAULT_CACHE_TTL) * 1000 });
+	return keys;
+}
@@ -23,22 +23,48 @@
  *   - `{cacheKey}_body`  → raw ArrayBuffer of the full body
  *
  * ### Large objects (> 20 MiB) — N+1 keys:
- *   - `{cacheKey}`           → JSON ChunkManifest, with KVCacheMetadata
- *   - `{cacheKey}_chunk_0`   → first 20 MiB of body
- *   - `{cacheKey}_chunk_1`   → next 20 MiB
+ *   - `{cacheKey}`               → JSON ChunkManifest, with KVCacheMetadata
+ *   - `{cacheKey}_chunk_{v}_0`   → first 20 MiB of body
+ *   - `{cacheKey}_chunk_{v}_1`   → next 20 MiB
  *   - ...
- *   - `{cacheKey}_chunk_N-1` → final chunk (may be < 20 MiB)
+ *   - `{cacheKey}_chunk_{v}_N-1` → final chunk (may be < 20 MiB)
+ *
+ * `{v}` is the manifest's `version`, new for every write. Chunks are read
+ * with a longer cacheTtl than the manifest, so a colo can still hold the
+ * chunks of an earlier body when it picks up a new manifest; distinct names
+ * keep it from mixing the two.
  *
  * All keys share the same `expirationTtl` so they auto-expire together.
  *
+ * ### Index — one empty key per lookup, same `expirationTtl`:
+ *   - `__idx:url:{cacheKey}`        → list by URL prefix (host, path) without
+ *                                     the body/chunk keys
+ *   - `__idx:tag:{tag}:{cacheKey}`  → list by Cache-Tag value
+ *
+ * `kvCacheDelete()` removes the index keys with the entry.
+ *
  * ## TTL strategy
  *
- * - **expirationTtl** (on writes): set to `max(60, maxAge)` — KV auto-deletes
- *   entries after this many seconds. CF minimum is 60s.
+ * - **expirationTtl** (on writes): set to `max(60, maxAge + swr)`, where swr
+ *   is the response's `stale-while-revalidate` — KV auto-deletes entries
+ *   after this many seconds. CF minimum is 60s.
  * - **cacheTtl** (on reads): controls how long the KV edge cache keeps a hot
  *   copy. Set to `max(60, maxAge)` for body/chunk reads. CF minimum is 30s.
- * - A manual `createdAt + maxAge` check on reads provides belt-and-suspenders
- *   expiry for edge cases where KV's eventual consistency causes clock drift.
+ * - A manual `createdAt + maxAge + swr` check on reads provides
+ *   belt-and-suspenders expiry for edge cases where KV's eventual consistency
+ *   causes clock drift.
+ *
+ * ## Stale-while-revalidate
+ *
+ * | Entry age | `X-KV-Cache-Status` | |
+ * |-----------|---------------------|-|
+ * | <= maxAge | `HIT` (`REVALIDATED` once refreshed by `kvCacheRefresh()`) | |
+ * | <= maxAge + swr | `STALE` | `onStale` is called to revalidate in the background |
+ * | older | — | miss |
+ *
+ * Revalidation itself (HEAD against R2, ETag compare) lives in object.ts;
+ * `kvCacheRefresh()` restarts an unchanged entry's clock by rewriting its
+ * keys from KV, without reading the object from R2.
  *
  * ## Memory management
  *
@@ -76,6 +102,12 @@ const MIN_CACHE_TTL = 60;
  */
 const MIN_EXPIRATION_TTL = 60;
 
+/** Prefix of the index keys; cache keys are URLs, so they never collide */
+const INDEX_PREFIX = '__idx:';
+
+/** KV rejects keys longer than 512 bytes; longer index keys are skipped */
+const MAX_KV_KEY_BYTES = 512;
+
 // ── Types ────────────────────────────────────────────────────────────────────
 
 /**
@@ -95,6 +127,10 @@ interface KVCacheMetadata {
 	createdAt: number;
 	/** Cache max-age in seconds (mirrors Cache-Control max-age) */
 	maxAge: number;
+	/** Seconds past maxAge the entry may be served stale (Cache-Control stale-while-revalidate) */
+	staleWhileRevalidate?: number;
+	/** Set by kvCacheRefresh(): R2 confirmed the entry unchanged after it went stale */
+	revalidated?: boolean;
 	/** Subset of original response headers to restore on cache hit */
 	headers: Record<string, string>;
 }
@@ -106,12 +142,17 @@ interface KVCacheMetadata {
 interface ChunkManifest {
 	/** Total body size across all chunks */
 	totalSize: number;
-	/** Number of chunk keys (`_chunk_0` through `_chunk_{N-1}`) */
+	/** Number of chunk keys (`_chunk_{version}_0` through `_chunk_{version}_{N-1}`) */
 	chunkCount: number;
+	/** Part of the chunk key names, new for every write. Absent on entries written before versioning */
+	version?: string;
 	/** Byte size of each chunk (last chunk may be smaller) */
 	chunkSizes: number[];
 }
 
+/** Index lookup: every entry with a cache tag, or under a URL prefix */
+export type KVCacheIndexQuery = { tag: string } | { prefix: string };
+
 // ── Public API ───────────────────────────────────────────────────────────────
 
 /**
@@ -121,13 +162,16 @@ interface ChunkManifest {
  * for chunked objects, streams only the overlapping chunks and slices at
  * chunk boundaries.
  *
- * Responses include `X-KV-Cache-Status: HIT` so the origin is visible in
- * curl/devtools. `CF-Cache-Status` is left to Cloudflare (will be `DYNAMIC`).
+ * Responses include `X-KV-Cache-Status` (`HIT`, `STALE` or `REVALIDATED`) so
+ * the origin is visible in curl/devtools. `CF-Cache-Status` is left to
+ * Cloudflare (will be `DYNAMIC`). Stale entries are served and reported to
+ * `onStale` with their ETag.
  */
 export async function kvCacheMatch(
 	kv: KVNamespace,
 	cacheKey: string,
 	request: Request,
+	opts: { onStale?: (etag: string) => void } = {},
 ): Promise<Response | null> {
 	try {
 		// Read metadata key first — uses minimum cacheTtl since we don't
@@ -143,10 +187,22 @@ export async function kvCacheMatch(
 		// handle auto-deletion, but KV's eventual consistency means an edge
 		// node might still serve a stale copy briefly after expiry.
 		const age = (Date.now() - metadata.createdAt) / 1000;
-		if (age > metadata.maxAge) {
-			console.log(`KV cache expired for "${cacheKey}" (age=${Math.round(age)}s, maxAge=${metadata.maxAge}s)`);
+		const swr = metadata.staleWhileRevalidate ?? 0;
+		if (age > metadata.maxAge + swr) {
+			console.log(`KV cache expired for "${cacheKey}" (age=${Math.round(age)}s, maxAge=${metadata.maxAge}s, swr=${swr}s)`);
 			return null;
 		}
+		const stale = age > metadata.maxAge;
+		const status = stale ? 'STALE' : metadata.revalidated ? 'REVALIDATED' : 'HIT';
+		const served = (response: Response | null): Response | null => {
+			if (!response) return null;
+			response.headers.set('X-KV-Cache-Status', status);
+			if (stale) {
+				console.log(`KV cache STALE for "${cacheKey}" (age=${Math.round(age)}s, maxAge=${metadata.maxAge}s)`);
+				opts.onStale?.(metadata.etag);
+			}
+			return response;
+		};
 
 		// Body/chunk reads use the object's maxAge as cacheTtl so the KV edge
 		// cache keeps hot entries warm for the full cache duration.
@@ -163,7 +219,7 @@ export async function kvCacheMatch(
 				return null;
 			}
 
-			return buildResponse(body, metadata, rangeHeader);
+			return served(buildResponse(body, metadata, rangeHeader));
 		}
 
 		// ── Chunked entry: manifest stored as JSON in the base key ───────────
@@ -171,10 +227,10 @@ export async function kvCacheMatch(
 		if (!manifest.chunkCount || !manifest.chunkSizes) return null;
 
 		if (rangeHeader) {
-			return buildChunkedRangeResponse(kv, cacheKey, manifest, metadata, rangeHeader, readCacheTtl);
+			return served(await buildChunkedRangeResponse(kv, cacheKey, manifest, metadata, rangeHeader, readCacheTtl));
 		}
 
-		return buildChunkedFullResponse(kv, cacheKey, manifest, metadata, readCacheTtl);
+		return served(await buildChunkedFullResponse(kv, cacheKey, manifest, metadata, readCacheTtl));
 	} catch (err) {
 		console.error(`KV cache match error for "${cacheKey}":`, err);
 		return null;
@@ -215,10 +271,11 @@ export async function kvCachePut(
 		isChunked: size > MAX_SINGLE_ENTRY,
 		createdAt: Date.now(),
 		maxAge,
+		staleWhileRevalidate: parseStaleWhileRevalidate(headers),
 		headers: extractCacheHeaders(headers),
 	};
 
-	const expirationTtl = Math.max(MIN_EXPIRATION_TTL, maxAge);
+	const expirationTtl = entryTtl(metadata);
 
 	try {
 		if (!metadata.isChunked) {
@@ -229,6 +286,7 @@ export async function kvCachePut(
 					metadata: { contentType: metadata.contentType },
 					expirationTtl,
 				}),
+				putIndex(kv, cacheKey, metadata, expirationTtl),
 			]);
 			console.log(`KV cache stored "${cacheKey}" single entry (${(size / 1024 / 1024).toFixed(1)}MB, ttl=${expirationTtl}s)`);
 		} else {
@@ -236,6 +294,7 @@ export async function kvCachePut(
 			const chunkCount = Math.ceil(size / CHUNK_SIZE);
 			const chunkSizes: number[] = [];
 			const puts: Promise<void>[] = [];
+			const version = newChunkVersion();
 
 			for (let i = 0; i < chunkCount; i++) {
 				const start = i * CHUNK_SIZE;
@@ -244,15 +303,16 @@ export async function kvCachePut(
 				chunkSizes.push(chunkData.byteLength);
 
 				puts.push(
-					kv.put(`${cacheKey}_chunk_${i}`, chunkData, {
+					kv.put(chunkKey(cacheKey, { version }, i), chunkData, {
 						metadata: { chunkIndex: i, size: chunkData.byteLength },
 						expirationTtl,
 					}),
 				);
 			}
 
-			const manifest: ChunkManifest = { totalSize: size, chunkCount, chunkSizes };
+			const manifest: ChunkManifest = { totalSize: size, chunkCount, chunkSizes, version };
 			puts.push(kv.put(cacheKey, JSON.stringify(manifest), { metadata, expirationTtl }));
+			puts.push(putIndex(kv, cacheKey, metadata, expirationTtl));
 
 			await Promise.all(puts);
 			console.log(`KV cache stored "${cacheKey}" chunked (${chunkCount} chunks, ${(size / 1024 / 1024).toFixed(1)}MB, ttl=${expirationTtl}s)`);
@@ -302,10 +362,11 @@ export async function kvCachePutStream(
 		isChunked,
 		createdAt: Date.now(),
 		maxAge,
+		staleWhileRevalidate: parseStaleWhileRevalidate(headers),
 		headers: extractCacheHeaders(headers),
 	};
 
-	const expirationTtl = Math.max(MIN_EXPIRATION_TTL, maxAge);
+	const expirationTtl = entryTtl(metadata);
 
 	try {
 		const reader = body.getReader();
@@ -336,6 +397,7 @@ export async function kvCachePutStream(
 					metadata: { contentType: metadata.contentType },
 					expirationTtl,
 				}),
+				putIndex(kv, cacheKey, metadata, expirationTtl),
 			]);
 			console.log(`KV stream stored "${cacheKey}" single entry (${(bytesRead / 1024 / 1024).toFixed(1)}MB, ttl=${expirationTtl}s)`);
 			return;
@@ -350,6 +412,7 @@ export async function kvCachePutStream(
 		// Stream reads may yield fragments of any size (typically 64 KB from
 		// R2), so we handle partial fills and cross-chunk boundaries within
 		// a single read() result.
+		const version = newChunkVersion();
 		let chunkIndex = 0;
 		let chunkBuf = new Uint8Array(CHUNK_SIZE);
 		let chunkFill = 0; // bytes written into current chunkBuf
@@ -377,7 +440,7 @@ export async function kvCachePutStream(
 					const idx = chunkIndex;
 					chunkSizes.push(chunkFill);
 					pendingPuts.push(
-						kv.put(`${cacheKey}_chunk_${idx}`, chunkData, {
+						kv.put(chunkKey(cacheKey, { version }, idx), chunkData, {
 							metadata: { chunkIndex: idx, size: chunkFill },
 							expirationTtl,
 						}),
@@ -395,7 +458,7 @@ export async function kvCachePutStream(
 			const idx = chunkIndex;
 			chunkSizes.push(chunkFill);
 			pendingPuts.push(
-				kv.put(`${cacheKey}_chunk_${idx}`, chunkData, {
+				kv.put(chunkKey(cacheKey, { version }, idx), chunkData, {
 					metadata: { chunkIndex: idx, size: chunkFill },
 					expirationTtl,
 				}),
@@ -404,8 +467,9 @@ export async function kvCachePutStream(
 		}
 
 		// Store manifest (chunk map) + metadata at the base key
-		const manifest: ChunkManifest = { totalSize, chunkCount: chunkIndex, chunkSizes };
+		const manifest: ChunkManifest = { totalSize, chunkCount: chunkIndex, chunkSizes, version };
 		pendingPuts.push(kv.put(cacheKey, JSON.stringify(manifest), { metadata, expirationTtl }));
+		pendingPuts.push(putIndex(kv, cacheKey, metadata, expirationTtl));
 
 		// All chunk uploads run concurrently — KV handles parallel writes fine
 		await Promise.all(pendingPuts);
@@ -415,6 +479,97 @@ export async function kvCachePutStream(
 	}
 }
 
+/**
+ * Remove a cached object — the base key plus its `_body` or `_chunk_N` keys.
+ *
+ * The base key goes first: once it is gone `kvCacheMatch()` misses, even if
+ * a body/chunk delete fails (those then just expire via their TTL). Returns
+ * true if an entry existed.
+ *
+ * @param kv       - KV namespace binding (CDN_CACHE)
+ * @param cacheKey - Full URL string used as the cache key
+ */
+export async function kvCacheDelete(kv: KVNamespace, cacheKey: string): Promise<boolean> {
+	const { value, metadata } = await kv.getWithMetadata<KVCacheMetadata>(cacheKey, { type: 'text' });
+	if (value === null) return false;
+
+	await kv.delete(cacheKey);
+
+	const keys = [`${cacheKey}_body`, ...indexKeys(cacheKey, metadata)];
+	if (metadata?.isChunked) {
+		try {
+			const manifest: ChunkManifest = JSON.parse(value);
+			for (let i = 0; i < manifest.chunkCount; i++) keys.push(chunkKey(cacheKey, manifest, i));
+		} catch {
+			console.warn(`KV delete: unreadable manifest for "${cacheKey}", chunks left to expire`);
+		}
+	}
+	await Promise.all(keys.map((key) => kv.delete(key)));
+	console.log(`KV cache deleted "${cacheKey}" (${keys.length + 1} keys)`);
+	return true;
+}
+
+/**
+ * Restart the clock of an entry R2 confirmed unchanged: rewrite the body or
+ * chunk keys (streamed KV to KV, so no R2 read and ~one chunk in memory) and
+ * the index keys with a fresh TTL, then the base key with a new `createdAt`
+ * and `revalidated: true`. The base key goes last so it never outlives its
+ * body. Returns false if the entry or one of its body keys is gone — the
+ * caller should refetch instead.
+ *
+ * @param kv       - KV namespace binding (CDN_CACHE)
+ * @param cacheKey - Full URL string used as the cache key
+ */
+export async function kvCacheRefresh(kv: KVNamespace, cacheKey: string): Promise<boolean> {
+	const { value, metadata } = await kv.getWithMetadata<KVCacheMetadata>(cacheKey, { type: 'text' });
+	if (value === null || !metadata) return false;
+
+	const refreshed: KVCacheMetadata = { ...metadata, createdAt: Date.now(), revalidated: true };
+	const expirationTtl = entryTtl(refreshed);
+
+	const manifest = metadata.isChunked ? (JSON.parse(value) as ChunkManifest) : null;
+	const bodyKeys = manifest
+		? Array.from({ length: manifest.chunkCount }, (_, i) => chunkKey(cacheKey, manifest, i))
+		: [`${cacheKey}_body`];
+	for (const key of bodyKeys) {
+		const body = await kv.get(key, { type: 'stream' });
+		if (!body) {
+			console.warn(`KV refresh: "${key}" is gone, entry can't be refreshed`);
+			return false;
+		}
+		await kv.put(key, body, { expirationTtl });
+	}
+
+	await putIndex(kv, cacheKey, refreshed, expirationTtl);
+	await kv.put(cacheKey, value, { metadata: refreshed, expirationTtl });
+	console.log(`KV cache refreshed "${cacheKey}" (${bodyKeys.length} body keys, ttl=${expirationTtl}s)`);
+	return true;
+}
+
+/**
+ * One page of cache keys from the index (see "Index" above), by tag or by
+ * URL prefix. Entries cached before the index existed aren't listed; they
+ * expire on their TTL. An index key can outlive its entry only until the
+ * shared TTL runs out, so listed keys may already be gone.
+ *
+ * @param kv    - KV namespace binding (CDN_CACHE)
+ * @param query - `{ tag }` (exact Cache-Tag value) or `{ prefix }` (cache key / URL prefix)
+ */
+export async function kvCacheIndexList(
+	kv: KVNamespace,
+	query: KVCacheIndexQuery,
+	opts: { cursor?: string; limit?: number } = {},
+): Promise<{ cacheKeys: string[]; cursor?: string }> {
+	const base = 'tag' in query ? `${INDEX_PREFIX}tag:${query.tag}:` : `${INDEX_PREFIX}url:`;
+	const page = await kv.list({ prefix: 'tag' in query ? base : base + query.prefix, cursor: opts.cursor, limit: opts.limit });
+
+	const cacheKeys = page.keys
+		.map(({ name }) => name.slice(base.length))
+		// Tag "a" must not pick up the keys of tag "a:b"
+		.filter((cacheKey) => /^https?:\/\//.test(cacheKey));
+	return { cacheKeys, cursor: page.list_complete ? undefined : page.cursor };
+}
+
 // ── Response builders ────────────────────────────────────────────────────────
 
 /**
@@ -491,7 +646,7 @@ async function buildChunkedFullResponse(
 	(async () => {
 		try {
 			for (let i = 0; i < manifest.chunkCount; i++) {
-				const chunk = await kv.get(`${cacheKey}_chunk_${i}`, {
+				const chunk = await kv.get(chunkKey(cacheKey, manifest, i), {
 					type: 'arrayBuffer',
 					cacheTtl,
 				});
@@ -546,7 +701,7 @@ async function buildChunkedRangeResponse(
 
 				// Skip chunks that don't overlap with the requested range
 				if (chunkEnd >= range.start && chunkOffset <= range.end) {
-					const chunk = await kv.get(`${cacheKey}_chunk_${i}`, {
+					const chunk = await kv.get(chunkKey(cacheKey, manifest, i), {
 						type: 'arrayBuffer',
 						cacheTtl,
 					});
@@ -601,6 +756,43 @@ function parseRange(header: string, total: number): { start: number; end: number
 	return { start, end: Math.min(end, total - 1) };
 }
 
+/**
+ * Index keys of an entry: one for its URL, one per Cache-Tag. Values are
+ * empty; the key is the data.
+ */
+function indexKeys(cacheKey: string, metadata: KVCacheMetadata | null): string[] {
+	const tags = metadata?.headers?.['Cache-Tag']?.split(',').map((t) => t.trim()).filter(Boolean) ?? [];
+	const encoder = new TextEncoder();
+	return [`${INDEX_PREFIX}url:${cacheKey}`, ...tags.map((tag) => `${INDEX_PREFIX}tag:${tag}:${cacheKey}`)].filter(
+		(key) => encoder.encode(key).byteLength <= MAX_KV_KEY_BYTES,
+	);
+}
+
+/** Key of chunk `i` of a chunked entry (unversioned for older manifests) */
+function chunkKey(cacheKey: string, manifest: Pick<ChunkManifest, 'version'>, i: number): string {
+	return manifest.version ? `${cacheKey}_chunk_${manifest.version}_${i}` : `${cacheKey}_chunk_${i}`;
+}
+
+/** Chunk key version for a new write */
+function newChunkVersion(): string {
+	return crypto.randomUUID().slice(0, 8);
+}
+
+/** KV expiry of an entry's keys: fresh for maxAge, then stale for its swr window */
+function entryTtl(metadata: KVCacheMetadata): number {
+	return Math.max(MIN_EXPIRATION_TTL, metadata.maxAge + (metadata.staleWhileRevalidate ?? 0));
+}
+
+/** stale-while-revalidate seconds from Cache-Control (0 when absent) */
+function parseStaleWhileRevalidate(headers: Headers): number {
+	return parseInt(headers.get('Cache-Control')?.match(/stale-while-revalidate=(\d+)/)?.[1] || '0', 10);
+}
+
+/** Write an entry's index keys, expiring with the entry */
+async function putIndex(kv: KVNamespace, cacheKey: string, metadata: KVCacheMetadata, expirationTtl: number): Promise<void> {
+	await Promise.all(indexKeys(cacheKey, metadata).map((key) => kv.put(key, '', { expirationTtl })));
+}
+
 /**
  * Extract the subset of response headers worth preserving in KV metadata.
  * These are restored on cache hits so the response looks identical to a
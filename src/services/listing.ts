@@ -0,0 +1,243 @@
+/**
+ * Directory listings for routes with `listing`.
+ *
+ * A URL addresses a directory when its key is empty or ends in "/"; the
+ * objects and sub-directories directly under that prefix are listed with
+ * `bucket.list({ prefix, delimiter: '/' })`, one page of `pageSize` entries
+ * at a time (`?cursor=` for the next page). Only the route's primary bucket
+ * is listed, not its fallbacks.
+ *
+ * ## Formats
+ *
+ * - HTML index page by default
+ * - JSON (`DirectoryListing`) with `Accept: application/json` or `?format=json`
+ *
+ * ## Caching
+ *
+ * Listings go through the Cache API with their own TTL (`maxAge`, default
+ * 60 s), keyed by URL (normalized by the route's `cacheKey` policy, which
+ * never drops `cursor`, plus `exp`/`sig` on signed-url routes) and format.
+ * Writes don't purge the listing of their directory, so new objects show up
+ * within `maxAge`. The HTML "Next page" link keeps the request's query, so a
+ * signed link still works on page 2.
+ */
+
+import type { CacheKeyConfig, ListingConfig, ObjectType } from '../types';
+import { getContentType, getObjectType } from '../utils/content-type';
+import { buildCacheKey } from '../utils/cache-key';
+import { encodeKeyPath } from '../utils/route-match';
+
+const DEFAULT_MAX_AGE = 60;
+const DEFAULT_PAGE_SIZE = 1000;
+
+export interface ListingEntry {
+	/** Name relative to the listed prefix */
+	name: string;
+	key: string;
+	size: number;
+	lastModified: string;
+	etag: string;
+	contentType: string;
+	type: ObjectType;
+}
+
+export interface DirectoryListing {
+	prefix: string;
+	/** Sub-directory names relative to the prefix, ending in "/" */
+	directories: string[];
+	objects: ListingEntry[];
+	/** Pass as `?cursor=` for the next page; absent on the last page */
+	cursor?: string;
+}
+
+/**
+ * Answer a directory request with an HTML or JSON listing, from the Cache
+ * API when possible. `bypassCache` skips the cache, `privateResponse`
+ * additionally marks the response as private.
+ */
+export async function listDirectory(opts: {
+	bucket: R2Bucket;
+	prefix: string;
+	request: Request;
+	ctx: ExecutionContext;
+	listing: ListingConfig;
+	bypassCache?: boolean;
+	privateResponse?: boolean;
+	/** The route's cache key policy (cacheConfig.cacheKey) */
+	cacheKey?: CacheKeyConfig;
+	/** Query parameters excluded from the cache key on top of `cacheKey` (e.g. signed URL exp/sig) */
+	cacheKeyDropParams?: readonly string[];
+}): Promise<Response> {
+	const { bucket, prefix, request, ctx, listing, privateResponse } = opts;
+	const bypassCache = opts.bypassCache || !!privateResponse;
+
+	const url = new URL(request.url);
+	const format = wantsJson(request, url) ? 'json' : 'html';
+
+	// HTML and JSON share a URL, so the format is part of the cache key;
+	// so is the page, whatever the policy's allowParams say
+	const cacheUrl = new URL(buildCacheKey(request.url, opts.cacheKey, opts.cacheKeyDropParams));
+	cacheUrl.searchParams.set('format', format);
+	const cursor = url.searchParams.get('cursor');
+	if (cursor !== null) cacheUrl.searchParams.set('cursor', cursor);
+	const cacheKey = new Request(cacheUrl.toString(), { method: 'GET' });
+	const cache = (caches as unknown as { default: Cache }).default;
+
+	if (!bypassCache) {
+		try {
+			const cached = await cache.match(cacheKey, { ignoreMethod: true });
+			if (cached) {
+				console.log(`Listing cache HIT for prefix "${prefix}"`);
+				return cached;
+			}
+		} catch (err) {
+			console.error(`Listing cache match error for prefix "${prefix}":`, err);
+		}
+	}
+
+	const result = await getDirectoryListing(bucket, prefix, {
+		cursor: cursor ?? undefined,
+		limit: listing.pageSize ?? DEFAULT_PAGE_SIZE,
+	});
+	const maxAge = listing.maxAge ?? DEFAULT_MAX_AGE;
+	const headers = {
+		'Cache-Control': `${privateResponse ? 'private' : 'public'}, max-age=${maxAge}`,
+		'Content-Type': format === 'json' ? 'application/json' : 'text/html; charset=utf-8',
+	};
+	const body = format === 'json' ? JSON.stringify(result) : renderListingHtml(result, url);
+	console.log(`Listed prefix "${prefix}" (${result.directories.length} directories, ${result.objects.length} objects)`);
+
+	if (!bypassCache && maxAge > 0) {
+		ctx.waitUntil(
+			cache
+				.put(cacheKey, new Response(body, { headers }))
+				.catch((err) => console.error(`Listing cache put error for prefix "${prefix}":`, err)),
+		);
+	}
+	return new Response(body, { headers });
+}
+
+export async function getDirectoryListing(
+	bucket: R2Bucket,
+	prefix: string,
+	opts: { cursor?: string; limit: number },
+): Promise<DirectoryListing> {
+	const listed = await bucket.list({
+		prefix,
+		delimiter: '/',
+		cursor: opts.cursor,
+		limit: opts.limit,
+	});
+
+	const objects = listed.objects
+		// The directory's own placeholder object ("docs/") isn't an entry
+		.filter((object) => object.key !== prefix)
+		.map((object): ListingEntry => {
+			// Listings don't carry httpMetadata unless asked for; fall back to the extension
+			const contentType = object.httpMetadata?.contentType ?? getContentType(object.key);
+			return {
+				name: object.key.slice(prefix.length),
+				key: object.key,
+				size: object.size,
+				lastModified: object.uploaded.toISOString(),
+				etag: object.httpEtag,
+				contentType,
+				type: getObjectType(contentType.split(';')[0].trim()),
+			};
+		});
+
+	return {
+		prefix,
+		directories: listed.delimitedPrefixes.map((p) => p.slice(prefix.length)),
+		objects,
+		cursor: listed.truncated ? listed.cursor : undefined,
+	};
+}
+
+/** True if any object lives under `{key}/` — the key names a directory */
+export async function hasChildren(bucket: R2Bucket, key: string): Promise<boolean> {
+	const listed = await bucket.list({ prefix: `${key}/`, limit: 1 });
+	return listed.objects.length > 0;
+}
+
+// ── HTML ─────────────────────────────────────────────────────────────────────
+
+function renderListingHtml(listing: DirectoryListing, url: URL): string {
+	const title = `Index of ${escapeHtml(safeDecode(url.pathname))}`;
+	const rows: string[] = [];
+
+	if (url.pathname !== '/') rows.push(row('../', '../', '', '', ''));
+	for (const dir of listing.directories) {
+		rows.push(row(encodeKeyPath(dir), dir, '', '', 'directory'));
+	}
+	for (const object of listing.objects) {
+		const modified = object.lastModified.slice(0, 16).replace('T', ' ');
+		rows.push(row(encodeKeyPath(object.name), object.name, formatSize(object.size), modified, object.type));
+	}
+
+	let next = '';
+	if (listing.cursor) {
+		// Keep the rest of the query (signed URL exp/sig, format) on the next page
+		const query = new URLSearchParams(url.search);
+		query.set('cursor', listing.cursor);
+		next = `<p><a href="?${escapeHtml(query.toString())}">Next page &rarr;</a></p>`;
+	}
+	return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; }
+table { border-collapse: collapse; }
+th, td { padding: 0.25rem 1rem 0.25rem 0; text-align: left; }
+td:nth-child(2) { text-align: right; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<table>
+<thead><tr><th>Name</th><th>Size</th><th>Last modified (UTC)</th><th>Type</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+${next}
+</body>
+</html>
+`;
+}
+
+function row(href: string, name: string, size: string, modified: string, type: string): string {
+	return `<tr><td><a href="${escapeHtml(href)}">${escapeHtml(name)}</a></td><td>${size}</td><td>${modified}</td><td>${type}</td></tr>`;
+}
+
+function formatSize(bytes: number): string {
+	const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return unit === 0 ? `${bytes} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function escapeHtml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+function safeDecode(path: string): string {
+	try {
+		return decodeURIComponent(path);
+	} catch {
+		return path;
+	}
+}
+
+function wantsJson(request: Request, url: URL): boolean {
+	const format = url.searchParams.get('format');
+	if (format) return format === 'json';
+	return request.headers.get('Accept')?.includes('application/json') ?? false;
+}
@@ -0,0 +1,241 @@
+/**
+ * Multipart uploads through the R2 binding, for objects too large for a
+ * single PUT. The API mirrors S3's query-string style on the object URL:
+ *
+ * | Request | Operation |
+ * |---------|-----------|
+ * | `POST /<key>?uploads` | Create → `{ key, uploadId }` |
+ * | `PUT /<key>?uploadId=X&partNumber=N` | Upload part (streamed) → `{ partNumber, etag }` |
+ * | `GET /<key>?uploadId=X` | List uploaded parts (needs S3 credentials) |
+ * | `POST /<key>?uploadId=X` | Complete with `{ parts: [{ partNumber, etag }] }` |
+ * | `DELETE /<key>?uploadId=X` | Abort |
+ *
+ * R2 rules apply: parts 1–10000, every part except the last at least 5 MiB
+ * and all of the same size. The route's `maxSize` caps each part and the
+ * completed object; `allowedContentTypes` is checked when the upload is
+ * created (the Content-Type given there becomes the object's type).
+ *
+ * The binding can't report part sizes, so with `maxSize` each part's size is
+ * recorded in KV (`__mpu:{uploadId}:{partNumber}`) and the total is checked
+ * before `complete()` — an oversized upload never replaces the object at
+ * the key. Such routes need the KV namespace (501 on create otherwise).
+ */
+
+import type { UploadConfig } from '../types';
+import {
+	checkBodyLength,
+	checkContentType,
+	getUploadCustomMetadata,
+	getUploadHttpMetadata,
+	payloadTooLarge,
+	textResponse,
+	uploadedResponse,
+} from './upload';
+import { getS3Client, s3ObjectUrl, xmlElements, xmlText } from '../utils/s3';
+
+const MAX_PART_NUMBER = 10000;
+
+/** R2 aborts unfinished multipart uploads after 7 days; part sizes expire with them */
+const PART_SIZE_TTL = 7 * 86400;
+
+// R2 error codes (https://developers.cloudflare.com/r2/api/error-codes/)
+const R2_NO_SUCH_UPLOAD = 10024;
+/** EntityTooSmall, InvalidPart */
+const R2_INVALID_PARTS = [10011, 10025];
+
+/** Credentials for the S3 API (only ListParts needs them) */
+export interface S3Access {
+	endpoint: string;
+	accessKeyId: string;
+	secretAccessKey: string;
+	bucketName: string;
+}
+
+export interface UploadedPart {
+	partNumber: number;
+	etag: string;
+	size: number;
+	lastModified: string;
+}
+
+// ── Operations ───────────────────────────────────────────────────────────────
+
+export async function createMultipartUpload(opts: {
+	bucket: R2Bucket;
+	key: string;
+	request: Request;
+	uploads: UploadConfig;
+	/** Records part sizes for the maxSize check (CDN_CACHE) */
+	kv?: KVNamespace;
+}): Promise<Response> {
+	const { bucket, key, request, uploads } = opts;
+
+	const rejected = checkContentType(request, key, uploads);
+	if (rejected) return rejected;
+	if (uploads.maxSize !== undefined && !opts.kv) {
+		return textResponse('Multipart uploads with maxSize require the CDN_CACHE KV namespace', 501);
+	}
+
+	const upload = await bucket.createMultipartUpload(key, {
+		httpMetadata: getUploadHttpMetadata(request, key),
+		customMetadata: getUploadCustomMetadata(request.headers),
+	});
+	console.log(`Multipart upload created for key "${key}" (${upload.uploadId})`);
+	return Response.json({ key: upload.key, uploadId: upload.uploadId });
+}
+
+export async function uploadPart(opts: {
+	bucket: R2Bucket;
+	key: string;
+	uploadId: string;
+	partNumber: string | undefined;
+	request: Request;
+	uploads: UploadConfig;
+	kv?: KVNamespace;
+}): Promise<Response> {
+	const { bucket, key, uploadId, request, uploads, kv } = opts;
+
+	const partNumber = Number(opts.partNumber);
+	if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PART_NUMBER) {
+		return textResponse(`partNumber must be an integer between 1 and ${MAX_PART_NUMBER}`, 400);
+	}
+	const rejected = checkBodyLength(request, uploads.maxSize);
+	if (rejected) return rejected;
+
+	try {
+		const part = await bucket.resumeMultipartUpload(key, uploadId).uploadPart(partNumber, request.body ?? new Uint8Array(0));
+		if (uploads.maxSize !== undefined && kv) {
+			// Content-Length was checked above; R2 rejects bodies that don't match it
+			await kv.put(partSizeKey(uploadId, partNumber), request.headers.get('Content-Length')!, { expirationTtl: PART_SIZE_TTL });
+		}
+		return Response.json({ partNumber: part.partNumber, etag: part.etag }, { headers: { ETag: part.etag } });
+	} catch (err) {
+		return multipartError(err, key, uploadId, 'upload part');
+	}
+}
+
+export async function completeMultipartUpload(opts: {
+	bucket: R2Bucket;
+	key: string;
+	uploadId: string;
+	request: Request;
+	uploads: UploadConfig;
+	kv?: KVNamespace;
+}): Promise<Response> {
+	const { bucket, key, uploadId, request, uploads, kv } = opts;
+
+	const parts = parseCompleteBody(await request.json().catch(() => null));
+	if (!parts) {
+		return textResponse('Body must be JSON { "parts": [{ "partNumber": number, "etag": string }] }', 400);
+	}
+
+	// Parts are capped individually; the total is checked before complete()
+	// so an oversized upload never overwrites the existing object
+	if (uploads.maxSize !== undefined) {
+		if (!kv) return textResponse('Multipart uploads with maxSize require the CDN_CACHE KV namespace', 501);
+		const sizes = await Promise.all(parts.map((part) => kv.get(partSizeKey(uploadId, part.partNumber))));
+		const missing = parts.find((_, i) => sizes[i] === null);
+		if (missing) return textResponse(`Unknown part ${missing.partNumber}: upload it again`, 400);
+
+		const total = sizes.reduce((sum, size) => sum + Number(size), 0);
+		if (total > uploads.maxSize) {
+			console.log(`Multipart upload for key "${key}" exceeds maxSize (${total} bytes), not completed`);
+			return payloadTooLarge(uploads.maxSize);
+		}
+	}
+
+	let object: R2Object;
+	try {
+		object = await bucket.resumeMultipartUpload(key, uploadId).complete(parts);
+	} catch (err) {
+		return multipartError(err, key, uploadId, 'complete');
+	}
+	if (uploads.maxSize !== undefined && kv) {
+		await Promise.all(parts.map((part) => kv.delete(partSizeKey(uploadId, part.partNumber))));
+	}
+
+	console.log(`Multipart upload completed for key "${key}" (${object.size} bytes, ${parts.length} parts)`);
+	return uploadedResponse(object, 200);
+}
+
+export async function abortMultipartUpload(opts: { bucket: R2Bucket; key: string; uploadId: string }): Promise<Response> {
+	const { bucket, key, uploadId } = opts;
+	try {
+		await bucket.resumeMultipartUpload(key, uploadId).abort();
+	} catch (err) {
+		return multipartError(err, key, uploadId, 'abort');
+	}
+	console.log(`Multipart upload aborted for key "${key}" (${uploadId})`);
+	return new Response(null, { status: 204 });
+}
+
+/**
+ * List the parts uploaded so far. The binding has no ListParts, so this goes
+ * through the S3 API (paging through all results); 501 without credentials.
+ */
+export async function listParts(opts: { s3?: S3Access; key: string; uploadId: string }): Promise<Response> {
+	const { s3, key, uploadId } = opts;
+	if (!s3) return textResponse('Listing parts requires S3 API credentials', 501);
+
+	const client = getS3Client(s3.accessKeyId, s3.secretAccessKey);
+	const parts: UploadedPart[] = [];
+	let marker = '0';
+
+	while (true) {
+		const url = new URL(s3ObjectUrl(s3.endpoint, s3.bucketName, key));
+		url.searchParams.set('uploadId', uploadId);
+		url.searchParams.set('part-number-marker', marker);
+		const res = await client.fetch(url.toString(), { method: 'GET' });
+		const xml = await res.text();
+
+		if (!res.ok) {
+			if (xmlText(xml, 'Code') === 'NoSuchUpload') return textResponse('Upload Not Found', 404);
+			console.error(`S3 ListParts failed for key "${key}" (${res.status}): ${xml.slice(0, 200)}`);
+			return textResponse('Bad Gateway', 502);
+		}
+
+		for (const part of xmlElements(xml, 'Part')) {
+			parts.push({
+				partNumber: Number(xmlText(part, 'PartNumber')),
+				etag: xmlText(part, 'ETag') ?? '',
+				size: Number(xmlText(part, 'Size')),
+				lastModified: xmlText(part, 'LastModified') ?? '',
+			});
+		}
+
+		const next = xmlText(xml, 'NextPartNumberMarker');
+		if (xmlText(xml, 'IsTruncated') !== 'true' || !next) break;
+		marker = next;
+	}
+
+	return Response.json({ key, uploadId, parts });
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function partSizeKey(uploadId: string, partNumber: number): string {
+	return `__mpu:${uploadId}:${partNumber}`;
+}
+
+function parseCompleteBody(body: unknown): R2UploadedPart[] | null {
+	const parts = (body as { parts?: unknown } | null)?.parts;
+	if (!Array.isArray(parts) || !parts.length) return null;
+	const valid = parts.every(
+		(p) => typeof p === 'object' && p !== null && Number.isInteger(p.partNumber) && typeof p.etag === 'string' && p.etag,
+	);
+	return valid ? parts.map((p) => ({ partNumber: p.partNumber, etag: p.etag })) : null;
+}
+
+/**
+ * Map binding errors to responses by their R2 error code: an unknown upload
+ * is 404, a bad part list (missing parts, undersized parts) 400. Anything
+ * else is rethrown.
+ */
+function multipartError(err: unknown, key: string, uploadId: string, operation: string): Response {
+	const message = err instanceof Error ? err.message : String(err);
+	console.log(`Multipart ${operation} failed for key "${key}" (${uploadId}): ${message}`);
+	const code = Number(/\((\d+)\)\s*$/.exec(message)?.[1]);
+	if (code === R2_NO_SUCH_UPLOAD) return textResponse('Upload Not Found', 404);
+	if (R2_INVALID_PARTS.includes(code)) return textResponse(`Invalid multipart upload: ${message}`, 400);
+	throw err;
+}
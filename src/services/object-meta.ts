@@ -0,0 +1,63 @@
+/**
+ * `?meta` — an object's metadata as JSON, from `bucket.head()`, without
+ * reading the body. Lets pipelines check that an upload landed and compare
+ * checksums without a full GET.
+ *
+ * Routes opt in with `meta: true`; elsewhere the parameter is ignored, so a
+ * public route doesn't hand customMetadata and its bucket layout to anyone
+ * who asks. The bucket chain is walked like for GETs; `bucket` names the
+ * binding that had the object and `route` the route that resolved it.
+ * Responses are `no-store` so a poll never sees a stale copy.
+ */
+
+import type { BucketRoute, NamedBucket } from '../types';
+
+export interface ObjectMeta {
+	key: string;
+	size: number;
+	etag: string;
+	version: string;
+	uploaded: string;
+	storageClass: string;
+	httpMetadata: R2HTTPMetadata;
+	customMetadata: Record<string, string>;
+	/** Hex digests R2 holds for the object (md5 for single-part uploads) */
+	checksums: R2StringChecksums;
+	/** Binding the object was found in */
+	bucket: string;
+	/** The route's R2 `bucketName` when served from its first bucket; null from a fallback */
+	bucketName: string | null;
+	/** True when found in a fallback bucket rather than the route's first */
+	fallback: boolean;
+	/** The route that resolved the key */
+	route: Pick<BucketRoute, 'host' | 'pathPrefix' | 'pathPattern' | 'keyTemplate'>;
+}
+
+export async function getObjectMeta(opts: { buckets: NamedBucket[]; key: string; route: BucketRoute }): Promise<Response> {
+	const { buckets, key, route } = opts;
+	const headers = { 'Cache-Control': 'no-store' };
+
+	for (const source of buckets) {
+		const object = await source.bucket.head(key);
+		if (!object) continue;
+
+		const meta: ObjectMeta = {
+			key,
+			size: object.size,
+			etag: object.httpEtag,
+			version: object.version,
+			uploaded: object.uploaded.toISOString(),
+			storageClass: object.storageClass,
+			httpMetadata: object.httpMetadata ?? {},
+			customMetadata: object.customMetadata ?? {},
+			checksums: object.checksums.toJSON(),
+			bucket: source.name,
+			bucketName: source === buckets[0] ? route.bucketName : null,
+			fallback: source !== buckets[0],
+			route: { host: route.host, pathPrefix: route.pathPrefix, pathPattern: route.pathPattern, keyTemplate: route.keyTemplate },
+		};
+		return Response.json(meta, { headers });
+	}
+
+	return Response.json({ error: 'Not Found', key }, { status: 404, headers });
+}
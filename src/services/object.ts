@@ -33,13 +33,18 @@
  * - **Conditional GET** (If-None-Match / If-Modified-Since): Cache API handles
  *   304 automatically; for origin, R2's `onlyIf` returns body-less R2Object → 304
  * - **HEAD**: same as GET with `ignoreMethod: true` on cache.match()
+ * - **Stale KV entry** (past max-age, within stale-while-revalidate): served
+ *   with `X-KV-Cache-Status: STALE` while `revalidateKVEntry()` checks R2 in
+ *   `waitUntil` — HEAD + ETag compare, refetching only if the object changed
  */
 
-import { AwsClient } from 'aws4fetch';
-import type { StorageConfig, CacheConfig } from '../types';
+import type { StorageConfig, CacheConfig, NamedBucket, SiteConfig } from '../types';
 import { getContentType, getObjectType } from '../utils/content-type';
 import { buildResponseHeaders } from '../utils/cache';
-import { kvCacheMatch, kvCachePut, kvCachePutStream } from './kv-cache';
+import { siteFallbackKeys } from '../utils/site';
+import { buildCacheKey } from '../utils/cache-key';
+import { getS3Client } from '../utils/s3';
+import { kvCacheDelete, kvCacheMatch, kvCachePut, kvCachePutStream, kvCacheRefresh } from './kv-cache';
 
 /**
  * Threshold above which objects bypass the Cache API and use KV instead.
@@ -48,6 +53,9 @@ import { kvCacheMatch, kvCachePut, kvCachePutStream } from './kv-cache';
  */
 const CACHE_API_SIZE_LIMIT = 28 * 1024 * 1024; // 28 MiB
 
+/** Cache keys with a KV revalidation in flight in this isolate */
+const kvRevalidations = new Set<string>();
+
 // ── R2 binding fetch with retry ───────────────────────────────────────────────
 
 async function r2Get(
@@ -71,25 +79,25 @@ async function r2Get(
 	return null;
 }
 
-// ── S3 API fetch (alternative to R2 binding) ─────────────────────────────────
-
-// Cache the AwsClient instance — credentials don't change per-request
-let cachedS3Client: AwsClient | null = null;
-let cachedS3ClientKey = '';
-
-function getS3Client(accessKeyId: string, secretAccessKey: string): AwsClient {
-	const key = `${accessKeyId}:${secretAccessKey}`;
-	if (cachedS3Client && cachedS3ClientKey === key) return cachedS3Client;
-	cachedS3Client = new AwsClient({
-		accessKeyId,
-		secretAccessKey,
-		service: 's3',
-		region: 'auto',
-	});
-	cachedS3ClientKey = key;
-	return cachedS3Client;
+/**
+ * Walk a bucket chain: a 404 (null) moves on to the next bucket, any other
+ * result — including a body-less R2Object for a failed onlyIf — stops the walk.
+ */
+async function r2GetFromChain(
+	buckets: NamedBucket[],
+	key: string,
+	options: R2GetOptions,
+	storageConfig: StorageConfig,
+): Promise<{ object: R2ObjectBody | R2Object; source: NamedBucket } | null> {
+	for (const source of buckets) {
+		const object = await r2Get(source.bucket, key, options, storageConfig);
+		if (object) return { object, source };
+	}
+	return null;
 }
 
+// ── S3 API fetch (alternative to R2 binding) ─────────────────────────────────
+
 async function s3Fetch(
 	s3Endpoint: string,
 	accessKeyId: string,
@@ -123,6 +131,12 @@ async function s3Fetch(
 
 export async function getObject(opts: {
 	bucket: R2Bucket;
+	/** Binding name of `bucket` (reported in X-Fetch-Via for fallback chains) */
+	bucketName?: string;
+	/** Buckets tried in order when `bucket` returns 404 (R2 binding path only) */
+	fallbackBuckets?: NamedBucket[];
+	/** Copy objects served from a fallback bucket into `bucket` in the background */
+	promoteOnFallback?: boolean;
 	key: string;
 	request: Request;
 	ctx: ExecutionContext;
@@ -138,17 +152,42 @@ export async function getObject(opts: {
 	r2BucketName?: string;
 	/** KV namespace for caching objects that exceed Cache API's ~28.5MB limit */
 	kvCache?: KVNamespace;
+	/** Static-site mode: index/.html fallbacks and custom 404 (R2 binding path only) */
+	site?: SiteConfig;
+	/** Query parameters excluded from the cache key on top of cacheConfig.cacheKey (e.g. signed URL exp/sig) */
+	cacheKeyDropParams?: readonly string[];
+	/**
+	 * Per-user content (JWT routes): served with `private` Cache-Control and
+	 * never read from or written to the Cache API / KV.
+	 */
+	privateResponse?: boolean;
 }): Promise<Response> {
 	const {
-		bucket, key, request, ctx,
+		bucket, bucketName, fallbackBuckets, promoteOnFallback, site, cacheKeyDropParams,
+		key, request, ctx,
 		storageConfig, cacheConfig,
-		bypassCache, customTags,
+		customTags, privateResponse,
 		useS3, s3Endpoint, s3AccessKeyId, s3SecretAccessKey, r2BucketName,
 		kvCache,
 	} = opts;
 
+	// Private responses skip the shared tiers exactly like a bypass
+	const bypassCache = opts.bypassCache || !!privateResponse;
+
 	const cache = (caches as unknown as { default: Cache }).default;
-	const cacheUrl = new URL(request.url).toString();
+	const cacheUrl = buildCacheKey(request.url, cacheConfig.cacheKey, cacheKeyDropParams);
+	const buckets: NamedBucket[] = [{ name: bucketName ?? 'R2', bucket }, ...(fallbackBuckets ?? [])];
+
+	// The R2 binding path, also used to refetch stale KV entries
+	function viaR2(r2Request: Request): Promise<Response> {
+		return getObjectViaR2({
+			buckets,
+			promoteOnFallback: promoteOnFallback ?? false,
+			key, request: r2Request, ctx, storageConfig,
+			cache, cachePutKey, cacheConfig, bypassCache, privateResponse, customTags,
+			kvCache, site,
+		});
+	}
 
 	// For cache.match(): pass the original request so the Cache API can handle
 	// Range, If-None-Match, and If-Modified-Since headers automatically
@@ -174,7 +213,16 @@ export async function getObject(opts: {
 		// ── KV fallback check (for objects > Cache API limit) ────────────────
 		if (kvCache) {
 			try {
-				const kvCached = await kvCacheMatch(kvCache, cacheUrl, request);
+				const kvCached = await kvCacheMatch(kvCache, cacheUrl, request, {
+					onStale: (etag) =>
+						ctx.waitUntil(
+							revalidateKVEntry({
+								kvCache, cacheKey: cacheUrl, etag, buckets, key,
+								// A plain GET, so the refetch fills the cache like a first request
+								refetch: () => viaR2(new Request(request.url, { method: 'GET' })),
+							}),
+						),
+				});
 				if (kvCached) {
 					console.log(`KV Cache HIT for key "${key}"`);
 					return kvCached;
@@ -197,16 +245,58 @@ export async function getObject(opts: {
 		return getObjectViaS3({
 			s3Endpoint, s3AccessKeyId, s3SecretAccessKey,
 			r2BucketName, key, request, ctx,
-			cache, cachePutKey, cacheConfig, bypassCache, customTags,
+			cache, cachePutKey, cacheConfig, bypassCache, privateResponse, customTags,
 		});
 	}
 
 	// ── R2 binding path ──────────────────────────────────────────────────────
-	return getObjectViaR2({
-		bucket, key, request, ctx, storageConfig,
-		cache, cachePutKey, cacheConfig, bypassCache, customTags,
-		kvCache,
-	});
+	return viaR2(request);
+}
+
+// ── KV stale-while-revalidate ────────────────────────────────────────────────
+
+/**
+ * Revalidate a stale KV entry against R2: HEAD the bucket chain and compare
+ * ETags. An unchanged object only has its KV entry refreshed (no R2 body
+ * read); a changed, moved or deleted one is dropped from KV and refetched
+ * through `refetch`, which caches the new copy like any first GET. One
+ * revalidation per cache key and isolate at a time.
+ */
+async function revalidateKVEntry(opts: {
+	kvCache: KVNamespace;
+	cacheKey: string;
+	/** ETag of the stale entry */
+	etag: string;
+	buckets: NamedBucket[];
+	key: string;
+	refetch: () => Promise<Response>;
+}): Promise<void> {
+	const { kvCache, cacheKey, etag, buckets, key, refetch } = opts;
+	if (kvRevalidations.has(cacheKey)) return;
+	kvRevalidations.add(cacheKey);
+
+	try {
+		let current: R2Object | null = null;
+		for (const source of buckets) {
+			current = await source.bucket.head(key);
+			if (current) break;
+		}
+
+		if (current?.httpEtag === etag && (await kvCacheRefresh(kvCache, cacheKey))) {
+			console.log(`KV cache revalidated "${cacheKey}" (ETag unchanged)`);
+			return;
+		}
+
+		console.log(`KV cache revalidation refetching "${cacheKey}" (${current ? `ETag ${etag} -> ${current.httpEtag}` : 'not found'})`);
+		await kvCacheDelete(kvCache, cacheKey);
+		// Drain the response: the KV write consumes the other branch of its tee
+		const res = await refetch();
+		await res.body?.pipeTo(new WritableStream());
+	} catch (err) {
+		console.error(`KV cache revalidation failed for "${cacheKey}":`, err);
+	} finally {
+		kvRevalidations.delete(cacheKey);
+	}
 }
 
 // ── S3 API implementation ────────────────────────────────────────────────────
@@ -223,12 +313,13 @@ async function getObjectViaS3(opts: {
 	cachePutKey: Request;
 	cacheConfig: CacheConfig;
 	bypassCache: boolean;
+	privateResponse?: boolean;
 	customTags?: string[];
 }): Promise<Response> {
 	const {
 		s3Endpoint, s3AccessKeyId, s3SecretAccessKey,
 		r2BucketName, key, request, ctx,
-		cache, cachePutKey, cacheConfig, bypassCache, customTags,
+		cache, cachePutKey, cacheConfig, bypassCache, privateResponse, customTags,
 	} = opts;
 
 	async function cacheFullFromS3(): Promise<void> {
@@ -300,6 +391,7 @@ async function getObjectViaS3(opts: {
 			host: nmHost,
 			customTags,
 			bypass: bypassCache,
+			private: privateResponse,
 		});
 		// Remove body-specific headers that don't apply to 304
 		fullHeaders.delete('Content-Length');
@@ -331,6 +423,7 @@ async function getObjectViaS3(opts: {
 		host,
 		customTags,
 		bypass: bypassCache,
+		private: privateResponse,
 	});
 
 	// Mark the response so we can tell which path was used
@@ -417,7 +510,9 @@ async function getObjectViaS3(opts: {
 // ── R2 binding implementation ────────────────────────────────────────────────
 
 async function getObjectViaR2(opts: {
-	bucket: R2Bucket;
+	/** Primary bucket first, then fallbacks in the order they are tried */
+	buckets: NamedBucket[];
+	promoteOnFallback: boolean;
 	key: string;
 	request: Request;
 	ctx: ExecutionContext;
@@ -426,17 +521,26 @@ async function getObjectViaR2(opts: {
 	cachePutKey: Request;
 	cacheConfig: CacheConfig;
 	bypassCache: boolean;
+	privateResponse?: boolean;
 	customTags?: string[];
 	kvCache?: KVNamespace;
+	site?: SiteConfig;
 }): Promise<Response> {
 	const {
-		bucket, key, request, ctx, storageConfig,
-		cache, cachePutKey, cacheConfig, bypassCache, customTags,
-		kvCache,
+		buckets, promoteOnFallback, request, ctx, storageConfig,
+		cache, cachePutKey, cacheConfig, bypassCache, privateResponse, customTags,
+		kvCache, site,
 	} = opts;
 
+	// Site mode may resolve the request to a different key (e.g. "docs" →
+	// "docs/index.html"); the cache key stays the request URL.
+	let key = opts.key;
+
+	// The bucket that actually served the object (set once found)
+	let source = buckets[0];
+
 	async function cacheFullFromR2(): Promise<void> {
-		const fullObject = await r2Get(bucket, key, {}, storageConfig);
+		const fullObject = await r2Get(source.bucket, key, {}, storageConfig);
 		if (!fullObject || !('body' in fullObject) || !fullObject.body) return;
 
 		const fullBody = fullObject as R2ObjectBody;
@@ -484,18 +588,46 @@ async function getObjectViaR2(opts: {
 		...(hasConditional ? { onlyIf: request.headers } : {}),
 	};
 
-	let object: R2ObjectBody | R2Object | null;
+	let found: { object: R2ObjectBody | R2Object; source: NamedBucket } | null;
 	try {
-		object = await r2Get(bucket, key, r2Opts, storageConfig);
+		found = await r2GetFromChain(buckets, key, r2Opts, storageConfig);
+
+		// ── Site mode: "docs" → "docs/index.html" → "docs.html" → SPA fallback ─
+		if (!found && site) {
+			const candidates = siteFallbackKeys(key, site);
+			if (site.spaFallback) candidates.push(site.spaFallback);
+			for (const candidate of candidates) {
+				found = await r2GetFromChain(buckets, candidate, r2Opts, storageConfig);
+				if (found) {
+					console.log(`Site fallback "${key}" → "${candidate}"`);
+					key = candidate;
+					break;
+				}
+			}
+		}
 	} catch (err) {
 		console.error(`R2 fetch failed for key "${key}":`, err);
 		return new Response('Origin Error', { status: 502, headers: { 'Content-Type': 'text/plain' } });
 	}
 
-	if (!object) {
+	if (!found) {
+		if (site?.notFoundDocument) {
+			const notFound = await getErrorObject({ buckets, key: site.notFoundDocument, status: 404, storageConfig, cacheConfig });
+			if (notFound) return notFound;
+		}
 		return new Response('Not Found', { status: 404, headers: { 'Content-Type': 'text/plain' } });
 	}
 
+	const object = found.object;
+	source = found.source;
+
+	if (source !== buckets[0]) {
+		console.log(`R2 fallback HIT for key "${key}" in "${source.name}"`);
+		if (promoteOnFallback) {
+			ctx.waitUntil(promoteObject(source, buckets[0], key, storageConfig));
+		}
+	}
+
 	// ── 304 Not Modified (R2 returns R2Object without body when onlyIf fails) ─
 	// Per RFC 9110 §15.4.5, a 304 SHOULD include headers that would have been
 	// sent in a 200 (especially Cache-Control, Content-Type, ETag, Last-Modified).
@@ -516,6 +648,7 @@ async function getObjectViaR2(opts: {
 			host: nmHost,
 			customTags,
 			bypass: bypassCache,
+			private: privateResponse,
 		});
 		// Remove body-specific headers that don't apply to 304
 		fullHeaders.delete('Content-Length');
@@ -543,10 +676,12 @@ async function getObjectViaR2(opts: {
 		host,
 		customTags,
 		bypass: bypassCache,
+		private: privateResponse,
 	});
 
-	// Mark the response so we can tell which path was used
-	headers.set('X-Fetch-Via', 'r2-binding');
+	// Mark the response so we can tell which path was used. With a fallback
+	// chain, also report which bucket served the object.
+	headers.set('X-Fetch-Via', buckets.length > 1 ? `r2-binding:${source.name}` : 'r2-binding');
 
 	// ── Range response ───────────────────────────────────────────────────────
 	// Don't try to cache partial responses — let a full GET populate the cache.
@@ -653,6 +788,84 @@ async function getObjectViaR2(opts: {
 	return new Response(clientStream.readable, { status: 200, headers });
 }
 
+// ── Error documents ──────────────────────────────────────────────────────────
+
+/**
+ * Serve an object from the bucket chain with a fixed status code (custom 404
+ * pages, hotlink substitutes). The response is never cached — it is returned
+ * with `Cache-Control: no-store` so it doesn't stick to the request URL.
+ * Returns null if the object doesn't exist or can't be read, so callers can
+ * fall back to their plain-text response.
+ */
+export async function getErrorObject(opts: {
+	buckets: NamedBucket[];
+	key: string;
+	status: number;
+	storageConfig: StorageConfig;
+	cacheConfig: CacheConfig;
+}): Promise<Response | null> {
+	const { buckets, key, status, storageConfig, cacheConfig } = opts;
+
+	try {
+		const found = await r2GetFromChain(buckets, key, {}, storageConfig);
+		if (!found || !('body' in found.object) || !found.object.body) {
+			console.warn(`Error object "${key}" not found`);
+			return null;
+		}
+
+		const body = found.object as R2ObjectBody;
+		const r2Headers = new Headers();
+		body.writeHttpMetadata(r2Headers);
+		if (!r2Headers.has('Content-Type')) {
+			r2Headers.set('Content-Type', getContentType(key));
+		}
+		const headers = buildResponseHeaders(r2Headers, getObjectType(r2Headers.get('Content-Type')!), cacheConfig, {
+			etag: body.httpEtag,
+			size: body.size,
+			objectKey: key,
+			bypass: true,
+		});
+		return new Response(body.body, { status, headers });
+	} catch (err) {
+		console.error(`Error object "${key}" fetch failed:`, err);
+		return null;
+	}
+}
+
+// ── Bucket migration ─────────────────────────────────────────────────────────
+
+/**
+ * Copy an object from a fallback bucket into the primary bucket, preserving
+ * httpMetadata and customMetadata. Runs in the background after a fallback
+ * hit; uses its own full GET so Range/conditional requests promote too.
+ * The put is create-only: an object written to the primary in the meantime
+ * is newer and wins. Failures are logged only — the next fallback hit simply
+ * tries again.
+ */
+async function promoteObject(
+	from: NamedBucket,
+	to: NamedBucket,
+	key: string,
+	storageConfig: StorageConfig,
+): Promise<void> {
+	try {
+		const object = await r2Get(from.bucket, key, {}, storageConfig);
+		if (!object || !('body' in object) || !object.body) return;
+		const promoted = await to.bucket.put(key, object.body, {
+			httpMetadata: object.httpMetadata,
+			customMetadata: object.customMetadata,
+			onlyIf: new Headers({ 'If-None-Match': '*' }),
+		});
+		if (!promoted) {
+			console.log(`R2 promote skipped for key "${key}": already in "${to.name}"`);
+			return;
+		}
+		console.log(`R2 promoted key "${key}" from "${from.name}" to "${to.name}" (size=${object.size})`);
+	} catch (err) {
+		console.error(`R2 promote failed for key "${key}" from "${from.name}" to "${to.name}":`, err);
+	}
+}
+
 // ── Cache header helpers ──────────────────────────────────────────────────────
 
 /** Build minimal headers for cache.put() — only what's needed for serving.
@@ -682,7 +895,7 @@ function buildCachePutHeaders(
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
-function buildContentRange(range: R2Range, total: number): string {
+export function buildContentRange(range: R2Range, total: number): string {
 	if ('suffix' in range && range.suffix) {
 		const start = total - range.suffix;
 		return `bytes ${start}-${total - 1}/${total}`;
@@ -693,7 +906,7 @@ function buildContentRange(range: R2Range, total: number): string {
 	return `bytes ${offset}-${end}/${total}`;
 }
 
-function rangeLength(range: R2Range, total: number): number {
+export function rangeLength(range: R2Range, total: number): number {
 	if ('length' in range && range.length) return range.length;
 	if ('suffix' in range && range.suffix) return range.suffix;
 	if ('offset' in range) return total - (range.offset ?? 0);
@@ -705,7 +918,7 @@ function rangeLength(range: R2Range, total: number): number {
  * into an R2Range object. Only the first range is used (multi-range not supported).
  * Falls back to reading from offset 0 if the header cannot be parsed.
  */
-function parseRangeHeader(header: string): R2Range {
+export function parseRangeHeader(header: string): R2Range {
 	const match = header.match(/^bytes=(\d*)-(\d*)$/);
 	if (!match) return { offset: 0 };
 
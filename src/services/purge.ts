@@ -0,0 +1,201 @@
+/**
+ * Cache invalidation across both tiers (Cache API and KV).
+ *
+ * Objects are cached under their normalized request URL (see
+ * utils/cache-key.ts), so a write to a key purges the URL it was written
+ * through, without its query string. Copies cached under other URLs (query
+ * parameters the cache key keeps, other hosts routed to the same bucket)
+ * expire on their own TTL.
+ *
+ * ## Purge requests (admin API)
+ *
+ * | Target | Cache API (this colo) | KV | Zone purge API |
+ * |--------|-----------------------|----|----------------|
+ * | URLs | deleted | deleted | `files` |
+ * | URL prefixes | entries found in the KV index | listed from the index | `prefixes` |
+ * | Cache tags | entries found in the KV index | listed from the index | `tags` |
+ *
+ * The Cache API can't be enumerated, so prefix and tag purges reach Cache API
+ * entries without a KV copy (and every other colo) only through the zone
+ * purge API, via a `ZonePurgeClient`.
+ *
+ * A broad prefix or tag can match more entries than one invocation may
+ * delete, so the index scans stop after `limit` entries and return a cursor;
+ * the call that passes it back continues the scans only.
+ */
+
+import type { CacheKeyConfig } from '../types';
+import { buildCacheKey } from '../utils/cache-key';
+import { formatListCursor, parseListCursor } from '../utils/cursor';
+import { kvCacheDelete, kvCacheIndexList } from './kv-cache';
+import type { KVCacheIndexQuery } from './kv-cache';
+
+/** Zone purge API limit on files / prefixes / tags per call */
+const ZONE_PURGE_BATCH = 30;
+/** Index entries purged per call when no limit is given (one KV list page) */
+const DEFAULT_SCAN_LIMIT = 1000;
+
+export interface PurgeResult {
+	/** The cache key that was purged */
+	url: string;
+	/** An entry was removed from the Cache API */
+	cache: boolean;
+	/** An entry was removed from KV */
+	kv: boolean;
+}
+
+export interface PurgeRequest {
+	urls?: string[];
+	/** URL prefixes, e.g. "https://cdn.example.com/images/2024/" */
+	prefixes?: string[];
+	/** Cache tags, as emitted in Cache-Tag (including the configured tag prefix) */
+	tags?: string[];
+}
+
+/** One zone purge call; Cloudflare takes a single kind of target per call */
+export type ZonePurgeTarget = { files: string[] } | { prefixes: string[] } | { tags: string[] };
+
+/** Forwards purges to the zone's edge cache. Throws if the purge was rejected */
+export interface ZonePurgeClient {
+	purge(target: ZonePurgeTarget): Promise<void>;
+}
+
+export interface PurgeReport {
+	/** Every cache key purged in this colo, from the URLs and the KV scans */
+	purged: PurgeResult[];
+	zone: 'purged' | 'skipped' | 'failed';
+	error?: string;
+	/** Pass with the same request to continue the KV scans; absent once they're done */
+	cursor?: string;
+	/** Prefixes and tags whose scans aren't finished, when there is a cursor */
+	remaining?: { prefixes: string[]; tags: string[] };
+}
+
+/**
+ * Remove the cached copy of a URL from the Cache API and KV. Pass the
+ * route's cache key policy so a normalized key (scheme, host) is hit. Errors
+ * are logged and reported as "nothing purged" — a write must not fail
+ * because its invalidation did.
+ */
+export async function purgeUrl(url: string, kvCache?: KVNamespace, cacheKey?: CacheKeyConfig): Promise<PurgeResult> {
+	const parsed = new URL(url);
+	parsed.search = '';
+	return purgeCacheKey(buildCacheKey(parsed.toString(), cacheKey), kvCache);
+}
+
+/**
+ * Purge URLs, URL prefixes and cache tags in this colo (Cache API and KV)
+ * and, with a `zone` client, from the zone's edge cache. The prefix and tag
+ * scans purge up to `limit` index entries; pass the returned `cursor` with
+ * the same request to continue them. A continuing call only scans — the
+ * first call already purged the URLs and forwarded the zone purge.
+ */
+export async function purgeCache(
+	request: PurgeRequest,
+	opts: { kvCache?: KVNamespace; zone?: ZonePurgeClient; limit?: number; cursor?: string },
+): Promise<PurgeReport> {
+	const { urls = [], prefixes = [], tags = [] } = request;
+	const { kvCache } = opts;
+	const continued = opts.cursor !== undefined;
+	const zone = continued ? undefined : opts.zone;
+
+	// URLs are purged as given (query string included), unlike purgeUrl(); the
+	// admin API normalizes them with their route's cache key policy first
+	const cacheKeys = new Set(continued ? [] : urls.map((url) => buildCacheKey(url)));
+	let paging: Pick<PurgeReport, 'cursor' | 'remaining'> = {};
+	if (kvCache) {
+		const queries: KVCacheIndexQuery[] = [...prefixes.map((prefix) => ({ prefix })), ...tags.map((tag) => ({ tag }))];
+		let budget = opts.limit ?? DEFAULT_SCAN_LIMIT;
+		let { index, cursor } = parseListCursor(opts.cursor);
+		while (index < queries.length) {
+			if (budget <= 0) {
+				paging = {
+					cursor: formatListCursor(index, cursor),
+					remaining: { prefixes: prefixes.slice(index), tags: tags.slice(Math.max(0, index - prefixes.length)) },
+				};
+				break;
+			}
+			const page = await kvCacheIndexList(kvCache, queries[index], { cursor, limit: budget });
+			for (const cacheKey of page.cacheKeys) cacheKeys.add(cacheKey);
+			budget -= page.cacheKeys.length;
+			cursor = page.cursor;
+			if (!cursor) index++;
+		}
+	}
+
+	const purged = await Promise.all([...cacheKeys].map((cacheKey) => purgeCacheKey(cacheKey, kvCache)));
+	if (!zone) return { purged, zone: 'skipped', ...paging };
+
+	const targets: ZonePurgeTarget[] = [
+		...batches(urls).map((files) => ({ files })),
+		// The zone API takes prefixes without the scheme
+		...batches(prefixes.map((prefix) => prefix.replace(/^https?:\/\//, ''))).map((prefixes) => ({ prefixes })),
+		...batches(tags).map((tags) => ({ tags })),
+	];
+	try {
+		for (const target of targets) await zone.purge(target);
+	} catch (err) {
+		console.error('Zone purge failed:', err);
+		return { purged, zone: 'failed', error: err instanceof Error ? err.message : String(err), ...paging };
+	}
+
+	console.log(`Zone purge forwarded (${urls.length} URLs, ${prefixes.length} prefixes, ${tags.length} tags)`);
+	return { purged, zone: 'purged', ...paging };
+}
+
+/**
+ * Purge one page of the KV index (up to `limit` entries with a tag or under
+ * a URL prefix) from KV, with all their chunk and index keys, and from the
+ * Cache API of this colo. Pass the returned cursor to continue.
+ */
+export async function purgeIndexed(
+	query: KVCacheIndexQuery,
+	opts: { kvCache: KVNamespace; limit?: number; cursor?: string },
+): Promise<{ purged: PurgeResult[]; cursor?: string }> {
+	const { cacheKeys, cursor } = await kvCacheIndexList(opts.kvCache, query, opts);
+	const purged = await Promise.all(cacheKeys.map((cacheKey) => purgeCacheKey(cacheKey, opts.kvCache)));
+	return { purged, ...(cursor ? { cursor } : {}) };
+}
+
+/** ZonePurgeClient for Cloudflare's purge_cache API */
+export function cloudflareZonePurgeClient(zoneId: string, apiToken: string): ZonePurgeClient {
+	return {
+		async purge(target) {
+			const res = await fetch(`https://api.cloudflare.com/client/v4/zones/${zoneId}/purge_cache`, {
+				method: 'POST',
+				headers: { Authorization: `Bearer ${apiToken}`, 'Content-Type': 'application/json' },
+				body: JSON.stringify(target),
+			});
+			const result = (await res.json().catch(() => null)) as { success?: boolean; errors?: { message: string }[] } | null;
+			if (!res.ok || !result?.success) {
+				const errors = result?.errors?.map((e) => e.message).join('; ');
+				throw new Error(`Zone purge API returned ${res.status}${errors ? `: ${errors}` : ''}`);
+			}
+		},
+	};
+}
+
+async function purgeCacheKey(cacheKey: string, kvCache?: KVNamespace): Promise<PurgeResult> {
+	const cache = (caches as unknown as { default: Cache }).default;
+	const [cacheDeleted, kvDeleted] = await Promise.all([
+		cache.delete(new Request(cacheKey), { ignoreMethod: true }).catch((err) => {
+			console.error(`Cache delete error for "${cacheKey}":`, err);
+			return false;
+		}),
+		kvCache
+			? kvCacheDelete(kvCache, cacheKey).catch((err) => {
+					console.error(`KV cache delete error for "${cacheKey}":`, err);
+					return false;
+				})
+			: false,
+	]);
+
+	console.log(`Purged "${cacheKey}" (cache=${cacheDeleted}, kv=${kvDeleted})`);
+	return { url: cacheKey, cache: cacheDeleted, kv: kvDeleted };
+}
+
+function batches(values: string[]): string[][] {
+	const result: string[][] = [];
+	for (let i = 0; i < values.length; i += ZONE_PURGE_BATCH) result.push(values.slice(i, i + ZONE_PURGE_BATCH));
+	return result;
+}
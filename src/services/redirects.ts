@@ -0,0 +1,145 @@
+/**
+ * Redirect engine.
+ *
+ * Runs in the bucket router after a route has matched but before the object
+ * key is resolved, so renamed objects can keep their published URLs working.
+ * Rules come from two places, checked in order (first match wins):
+ *
+ * 1. `redirects.rules` declared on the route in BUCKET_ROUTING
+ * 2. `redirects.file` — a Netlify-style `_redirects` object in the routed
+ *    bucket, parsed and cached per isolate for `fileTtl` seconds
+ *
+ * ## Rule syntax
+ *
+ *    /old-page          /new-page              301
+ *    /blog/:year/:slug  /posts/:slug           302
+ *    /downloads/*       https://dl.example.com/:splat
+ *
+ * Sources use the route path pattern syntax (`:name` segments, trailing `*`).
+ * In targets, `:name` is replaced with the capture and `:splat` with the `*`
+ * remainder. Supported statuses are 301, 302, 307 and 308 (default 301). The
+ * request's query string is passed through unless the target has its own.
+ * Paths are matched against the full request path, not the rewritten key.
+ */
+
+import type { RedirectConfig, RedirectRule, RedirectStatus } from '../types';
+import { matchPathPattern, REST_PARAM } from '../utils/route-match';
+
+const REDIRECT_STATUSES = new Set<number>([301, 302, 307, 308]);
+
+const DEFAULT_STATUS: RedirectStatus = 301;
+
+/** Default per-isolate cache lifetime of a parsed redirects file (seconds) */
+const DEFAULT_FILE_TTL = 60;
+
+// ── Per-isolate file cache ───────────────────────────────────────────────────
+
+interface CachedRules {
+	rules: RedirectRule[];
+	expiresAt: number;
+}
+
+// Keyed by "{binding}:{fileKey}" — the same file may be shared by several routes
+const fileCache = new Map<string, CachedRules>();
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Find the redirect for a request URL. Returns the redirect Response, or null
+ * if no rule matches.
+ */
+export async function findRedirect(opts: {
+	config: RedirectConfig;
+	bucket: R2Bucket;
+	/** Binding name of `bucket` (file cache key) */
+	bucketName: string;
+	url: URL;
+}): Promise<Response | null> {
+	const { config, bucket, bucketName, url } = opts;
+
+	const rules = [...(config.rules ?? [])];
+	if (config.file) {
+		rules.push(...(await loadRedirectsFile(bucket, bucketName, config.file, config.fileTtl ?? DEFAULT_FILE_TTL)));
+	}
+
+	for (const rule of rules) {
+		let params: Record<string, string> | null;
+		try {
+			params = matchPathPattern(rule.from, url.pathname);
+		} catch {
+			continue; // invalid pattern from the file — already warned at parse time
+		}
+		if (!params) continue;
+
+		const location = buildLocation(rule.to, params, url);
+		const status = rule.status ?? DEFAULT_STATUS;
+		console.log(`Redirect ${url.pathname} → ${location} (${status})`);
+		return new Response(null, { status, headers: { Location: location } });
+	}
+
+	return null;
+}
+
+/**
+ * Parse a Netlify-style `_redirects` file. Blank lines and `#` comments are
+ * ignored; lines that aren't `from to [status]` with a redirect status are
+ * skipped with a warning (rewrites like `200` aren't supported). A trailing
+ * `!` on the status (Netlify's "force") is accepted and ignored.
+ */
+export function parseRedirectsFile(text: string): RedirectRule[] {
+	const rules: RedirectRule[] = [];
+
+	for (const [i, rawLine] of text.split('\n').entries()) {
+		const line = rawLine.replace(/#.*$/, '').trim();
+		if (!line) continue;
+
+		const [from, to, statusField, ...rest] = line.split(/\s+/);
+		const status = statusField ? parseInt(statusField.replace(/!$/, ''), 10) : DEFAULT_STATUS;
+
+		if (!to || rest.length || !from.startsWith('/') || !REDIRECT_STATUSES.has(status)) {
+			console.warn(`Skipping redirects line ${i + 1}: "${rawLine.trim()}"`);
+			continue;
+		}
+		try {
+			matchPathPattern(from, '/');
+		} catch (err) {
+			console.warn(`Skipping redirects line ${i + 1}: ${(err as Error).message}`);
+			continue;
+		}
+
+		rules.push({ from, to, status: status as RedirectStatus });
+	}
+
+	return rules;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+async function loadRedirectsFile(bucket: R2Bucket, bucketName: string, fileKey: string, ttl: number): Promise<RedirectRule[]> {
+	const cacheKey = `${bucketName}:${fileKey}`;
+	const cached = fileCache.get(cacheKey);
+	if (cached && cached.expiresAt > Date.now()) return cached.rules;
+
+	let rules: RedirectRule[] = [];
+	try {
+		const object = await bucket.get(fileKey);
+		if (object) rules = parseRedirectsFile(await object.text());
+	} catch (err) {
+		// Keep serving the previous rules if the file can't be read right now
+		console.error(`Redirects file "${fileKey}" in "${bucketName}" failed to load:`, err);
+		if (cached) rules = cached.rules;
+	}
+
+	fileCache.set(cacheKey, { rules, expiresAt: Date.now() + ttl * 1000 });
+	return rules;
+}
+
+/** Substitute captures into the target and carry the query string over */
+function buildLocation(to: string, params: Record<string, string>, url: URL): string {
+	const location = to.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (placeholder, name: string) => {
+		if (name === 'splat') return params[REST_PARAM] ?? '';
+		return params[name] ?? placeholder;
+	});
+	if (url.search && !location.includes('?')) return location + url.search;
+	return location;
+}
@@ -0,0 +1,85 @@
+/**
+ * Routing table storage.
+ *
+ * By default routes come from the BUCKET_ROUTING var and only change with a
+ * deploy. With `BUCKET_ROUTING.kv` set, the routes are read from a KV key
+ * instead (cached per isolate for `cacheTtl` seconds) and can be edited at
+ * runtime through the /_admin/routes API.
+ *
+ * The env routes remain the fallback: if the KV key is missing, unreadable or
+ * fails validation, requests keep being routed by BUCKET_ROUTING.routes.
+ * Writes refresh the isolate that handled them immediately; other isolates
+ * pick up the change within `cacheTtl`.
+ */
+
+import type { Env, BucketRoute, BucketRoutingConfig, RoutingKVConfig } from '../types';
+import { validateRoutes } from '../utils/config';
+
+/** Default per-isolate cache lifetime of the KV routing table (seconds) */
+const DEFAULT_CACHE_TTL = 30;
+
+export type RouteSource = 'kv' | 'env';
+
+interface CachedRoutes {
+	routes: BucketRoute[];
+	source: RouteSource;
+	expiresAt: number;
+}
+
+// Keyed by "{binding}:{key}"
+const routeCache = new Map<string, CachedRoutes>();
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Routes to match requests against, and where they came from. */
+export async function getRoutes(env: Env, routing: BucketRoutingConfig): Promise<{ routes: BucketRoute[]; source: RouteSource }> {
+	if (!routing.kv) return { routes: routing.routes, source: 'env' };
+
+	const cacheKey = `${routing.kv.binding}:${routing.kv.key}`;
+	const cached = routeCache.get(cacheKey);
+	if (cached && cached.expiresAt > Date.now()) return cached;
+
+	const loaded = (await readKVRoutes(env, routing.kv)) ?? { routes: routing.routes, source: 'env' as const };
+	routeCache.set(cacheKey, { ...loaded, expiresAt: Date.now() + (routing.kv.cacheTtl ?? DEFAULT_CACHE_TTL) * 1000 });
+	return loaded;
+}
+
+/**
+ * Validate and store a new routing table in KV. Returns the validation
+ * issues (nothing is written if there are any).
+ */
+export async function saveRoutes(env: Env, kvConfig: RoutingKVConfig, routes: unknown): Promise<string[]> {
+	const { routes: validated, issues } = validateRoutes(routes, env, 'routes');
+	if (issues.length) return issues;
+
+	const kv = env[kvConfig.binding] as KVNamespace;
+	await kv.put(kvConfig.key, JSON.stringify(validated));
+
+	routeCache.set(`${kvConfig.binding}:${kvConfig.key}`, {
+		routes: validated,
+		source: 'kv',
+		expiresAt: Date.now() + (kvConfig.cacheTtl ?? DEFAULT_CACHE_TTL) * 1000,
+	});
+	console.log(`Routing table saved to KV "${kvConfig.key}" (${validated.length} routes)`);
+	return [];
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+async function readKVRoutes(env: Env, kvConfig: RoutingKVConfig): Promise<{ routes: BucketRoute[]; source: RouteSource } | null> {
+	try {
+		const kv = env[kvConfig.binding] as KVNamespace;
+		const value = await kv.get(kvConfig.key, { type: 'json' });
+		if (value === null) return null;
+
+		const { routes, issues } = validateRoutes(value, env, `KV "${kvConfig.key}"`);
+		if (issues.length) {
+			console.error(`Ignoring invalid routing table in KV "${kvConfig.key}":\n- ${issues.join('\n- ')}`);
+			return null;
+		}
+		return { routes, source: 'kv' };
+	} catch (err) {
+		console.error(`Routing table read from KV "${kvConfig.key}" failed:`, err);
+		return null;
+	}
+}
@@ -0,0 +1,252 @@
+/**
+ * Read-only S3-compatible API for routes with `s3Api`, so S3 tools (rclone,
+ * s5cmd, the AWS SDKs) can read through the worker without R2 credentials.
+ *
+ * ## Operations
+ *
+ * | Request | Operation |
+ * |---------|-----------|
+ * | `GET /{bucket}?list-type=2` | ListObjectsV2 (`prefix`, `delimiter`, `continuation-token`, `max-keys`, `start-after`, `encoding-type=url`) |
+ * | `HEAD /{bucket}` | HeadBucket |
+ * | `HEAD /{bucket}/{key}` | HeadObject |
+ * | `GET /{bucket}/{key}` | GetObject (`Range`, `If-Match`, `If-None-Match`, `If-Modified-Since`, `If-Unmodified-Since`) |
+ *
+ * Anything else is answered with an S3 XML error: `NotImplemented` for other
+ * bucket operations (including ListObjects v1), `MethodNotAllowed` for writes.
+ * Request signatures are not checked — the route is as public as any other
+ * route without `auth`.
+ *
+ * Keys are resolved by bucketRouter, so prefix stripping and key templates
+ * apply: the route's bucket root maps to a key prefix ("" or e.g.
+ * "tenants/acme/"), which is added to listing prefixes and stripped from the
+ * returned keys. Objects are read from the whole fallback chain, listings
+ * from the primary bucket only.
+ */
+
+import type { NamedBucket, S3ApiConfig } from '../types';
+import { getContentType } from '../utils/content-type';
+import { encodeKeyPath } from '../utils/route-match';
+import { xmlEscape } from '../utils/s3';
+import { buildContentRange, parseRangeHeader, rangeLength } from './object';
+
+const S3_XMLNS = 'http://s3.amazonaws.com/doc/2006-03-01/';
+const MAX_KEYS = 1000;
+
+type S3ErrorCode = 'NoSuchKey' | 'InvalidArgument' | 'InvalidRange' | 'PreconditionFailed' | 'NotImplemented' | 'MethodNotAllowed';
+
+const ERROR_MESSAGES: Record<S3ErrorCode, string> = {
+	NoSuchKey: 'The specified key does not exist.',
+	InvalidArgument: 'Invalid Argument',
+	InvalidRange: 'The requested range is not satisfiable',
+	PreconditionFailed: 'At least one of the pre-conditions you specified did not hold',
+	NotImplemented: 'A header or query you provided implies functionality that is not implemented',
+	MethodNotAllowed: 'The specified method is not allowed against this resource.',
+};
+
+/**
+ * Answer an S3 request. `key` is the object key resolved by bucketRouter;
+ * `buckets` the route's bucket chain, primary first.
+ */
+export async function handleS3Request(opts: {
+	request: Request;
+	buckets: NamedBucket[];
+	key: string;
+	s3Api: S3ApiConfig;
+}): Promise<Response> {
+	const { request, buckets, key, s3Api } = opts;
+	const url = new URL(request.url);
+	const method = request.method;
+
+	if (method !== 'GET' && method !== 'HEAD') {
+		return s3Error('MethodNotAllowed', 405, request, { Allow: 'GET, HEAD' });
+	}
+	if (url.searchParams.get('list-type') === '2') {
+		if (method === 'HEAD') return s3Error('MethodNotAllowed', 405, request, { Allow: 'GET' });
+		return listObjectsV2(buckets[0].bucket, bucketRoot(key), url, s3Api, request);
+	}
+	if (!key || key.endsWith('/')) {
+		// HeadBucket; any other bucket operation (ListObjects v1, ?location, ...) isn't offered
+		if (method === 'HEAD') return new Response(null, { status: 200 });
+		return s3Error('NotImplemented', 501, request);
+	}
+	return getS3Object(buckets, key, request);
+}
+
+// ── ListObjectsV2 ────────────────────────────────────────────────────────────
+
+async function listObjectsV2(bucket: R2Bucket, root: string, url: URL, s3Api: S3ApiConfig, request: Request): Promise<Response> {
+	const params = url.searchParams;
+	const prefix = params.get('prefix') ?? '';
+	const delimiter = params.get('delimiter') ?? '';
+	const continuationToken = params.get('continuation-token') ?? undefined;
+	const startAfter = params.get('start-after') ?? '';
+	const encodingType = params.get('encoding-type');
+
+	const maxKeysParam = params.get('max-keys') ?? String(MAX_KEYS);
+	const maxKeys = Math.min(Number(maxKeysParam), MAX_KEYS);
+	if (!/^\d+$/.test(maxKeysParam)) {
+		return s3Error('InvalidArgument', 400, request, {}, 'Provided max-keys not an integer or within integer range');
+	}
+	if (encodingType !== null && encodingType !== 'url') {
+		return s3Error('InvalidArgument', 400, request, {}, 'Invalid Encoding Method specified in Request');
+	}
+
+	const listed =
+		maxKeys === 0
+			? { objects: [], delimitedPrefixes: [], truncated: false as const }
+			: await bucket.list({
+					prefix: root + prefix,
+					delimiter: delimiter || undefined,
+					limit: maxKeys,
+					// A continuation token supersedes start-after
+					cursor: continuationToken,
+					startAfter: !continuationToken && startAfter ? root + startAfter : undefined,
+				});
+
+	// Keys are relative to the route's bucket root; "url" encoding keeps "/" readable
+	const encode = (value: string) => xmlEscape(encodingType === 'url' ? encodeKeyPath(value) : value);
+	const element = (tag: string, value: string | number | boolean) => `<${tag}>${value}</${tag}>`;
+
+	const contents = listed.objects.map(
+		(object) =>
+			'<Contents>' +
+			element('Key', encode(object.key.slice(root.length))) +
+			element('LastModified', object.uploaded.toISOString()) +
+			element('ETag', xmlEscape(object.httpEtag)) +
+			element('Size', object.size) +
+			element('StorageClass', 'STANDARD') +
+			'</Contents>',
+	);
+	const commonPrefixes = listed.delimitedPrefixes.map(
+		(p) => `<CommonPrefixes>${element('Prefix', encode(p.slice(root.length)))}</CommonPrefixes>`,
+	);
+
+	const xml = [
+		`<ListBucketResult xmlns="${S3_XMLNS}">`,
+		element('Name', xmlEscape(s3Api.bucket)),
+		element('Prefix', encode(prefix)),
+		delimiter ? element('Delimiter', encode(delimiter)) : '',
+		element('MaxKeys', maxKeys),
+		encodingType ? element('EncodingType', 'url') : '',
+		element('KeyCount', contents.length + commonPrefixes.length),
+		element('IsTruncated', listed.truncated),
+		continuationToken ? element('ContinuationToken', xmlEscape(continuationToken)) : '',
+		listed.truncated ? element('NextContinuationToken', xmlEscape(listed.cursor)) : '',
+		startAfter ? element('StartAfter', encode(startAfter)) : '',
+		...contents,
+		...commonPrefixes,
+		'</ListBucketResult>',
+	];
+	return xmlResponse(xml.join(''), 200);
+}
+
+/** Key prefix of the route's bucket root, "" or ending in "/" */
+function bucketRoot(key: string): string {
+	return !key || key.endsWith('/') ? key : `${key}/`;
+}
+
+// ── GetObject / HeadObject ───────────────────────────────────────────────────
+
+async function getS3Object(buckets: NamedBucket[], key: string, request: Request): Promise<Response> {
+	const rangeHeader = request.method === 'GET' ? request.headers.get('Range') : null;
+	const range = rangeHeader ? parseRangeHeader(rangeHeader) : undefined;
+
+	let object: R2Object | R2ObjectBody | null = null;
+	for (const { bucket } of buckets) {
+		try {
+			object = request.method === 'HEAD' ? await bucket.head(key) : await bucket.get(key, range ? { range } : {});
+		} catch (err) {
+			// R2 rejects ranges that start past the end of the object
+			if (range) return s3Error('InvalidRange', 416, request);
+			throw err;
+		}
+		if (object) break;
+	}
+	if (!object) return s3Error('NoSuchKey', 404, request);
+
+	const headers = new Headers();
+	object.writeHttpMetadata(headers);
+	if (!headers.has('Content-Type')) headers.set('Content-Type', getContentType(key));
+	headers.set('ETag', object.httpEtag);
+	headers.set('Last-Modified', object.uploaded.toUTCString());
+	headers.set('Accept-Ranges', 'bytes');
+	for (const [name, value] of Object.entries(object.customMetadata ?? {})) {
+		headers.set(`x-amz-meta-${name}`, value);
+	}
+
+	// Evaluated here rather than via onlyIf: head() doesn't take conditions,
+	// and get() doesn't say which one failed (304 vs 412)
+	const failed = checkPreconditions(object, request.headers);
+	const body = 'body' in object ? (object as R2ObjectBody).body : null;
+	if (failed) {
+		await body?.cancel();
+		return failed === 412 ? s3Error('PreconditionFailed', 412, request) : new Response(null, { status: 304, headers });
+	}
+
+	if (range && body) {
+		// The range R2 served: a requested end past the object is clamped
+		const served = (object as R2ObjectBody).range ?? range;
+		headers.set('Content-Range', buildContentRange(served, object.size));
+		headers.set('Content-Length', String(rangeLength(served, object.size)));
+		return new Response(body, { status: 206, headers });
+	}
+	headers.set('Content-Length', String(object.size));
+	return new Response(body, { status: 200, headers });
+}
+
+/**
+ * Evaluate the conditional headers in RFC 9110 order: a failed If-Match or
+ * If-Unmodified-Since is a 412, a matching If-None-Match or an unchanged
+ * If-Modified-Since a 304. null if the request should be answered normally.
+ */
+function checkPreconditions(object: R2Object, headers: Headers): 304 | 412 | null {
+	// HTTP dates have whole-second precision
+	const modified = Math.floor(object.uploaded.getTime() / 1000) * 1000;
+	const ifMatch = headers.get('If-Match');
+	const ifNoneMatch = headers.get('If-None-Match');
+	const ifModifiedSince = Date.parse(headers.get('If-Modified-Since') ?? '');
+	const ifUnmodifiedSince = Date.parse(headers.get('If-Unmodified-Since') ?? '');
+
+	if (ifMatch !== null) {
+		if (!matchesEtag(ifMatch, object.httpEtag, false)) return 412;
+	} else if (modified > ifUnmodifiedSince) {
+		return 412;
+	}
+
+	if (ifNoneMatch !== null) {
+		if (matchesEtag(ifNoneMatch, object.httpEtag, true)) return 304;
+	} else if (modified <= ifModifiedSince) {
+		return 304;
+	}
+	return null;
+}
+
+/** Whether an If-Match / If-None-Match list names the ETag; If-None-Match compares weakly */
+function matchesEtag(list: string, etag: string, weak: boolean): boolean {
+	return list.split(',').some((candidate) => {
+		const value = candidate.trim();
+		if (value === '*') return true;
+		if (value.startsWith('W/')) return weak && value.slice(2) === etag;
+		return value === etag;
+	});
+}
+
+// ── Responses ────────────────────────────────────────────────────────────────
+
+function xmlResponse(body: string, status: number, headers: Record<string, string> = {}): Response {
+	return new Response(`<?xml version="1.0" encoding="UTF-8"?>\n${body}`, {
+		status,
+		headers: { 'Content-Type': 'application/xml', ...headers },
+	});
+}
+
+/** S3 `<Error>` document; HEAD responses carry the status only */
+function s3Error(code: S3ErrorCode, status: number, request: Request, headers: Record<string, string> = {}, message?: string): Response {
+	if (request.method === 'HEAD') return new Response(null, { status, headers });
+	const resource = new URL(request.url).pathname;
+	return xmlResponse(
+		`<Error><Code>${code}</Code><Message>${xmlEscape(message ?? ERROR_MESSAGES[code])}</Message><Resource>${xmlEscape(resource)}</Resource></Error>`,
+		status,
+		headers,
+	);
+}
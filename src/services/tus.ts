@@ -0,0 +1,365 @@
+/**
+ * Resumable uploads over tus 1.0 (https://tus.io/protocols/resumable-upload):
+ * the core protocol plus the creation, expiration and termination
+ * extensions, on top of R2 multipart uploads.
+ *
+ * | Request | Operation |
+ * |---------|-----------|
+ * | `POST /<key>` with `Upload-Length` | Create → 201, `Location: /<key>?tus=<id>` |
+ * | `HEAD /<key>?tus=<id>` | Current `Upload-Offset` |
+ * | `PATCH /<key>?tus=<id>` with `Upload-Offset` | Append bytes |
+ * | `DELETE /<key>?tus=<id>` | Terminate |
+ *
+ * ## Parts
+ *
+ * R2 wants every part but the last to have the same size (at least 5 MiB),
+ * while tus clients send whatever they have. Incoming bytes are cut into
+ * fixed-size parts and the remainder — less than one part — is kept in KV
+ * until the next PATCH; the PATCH that reaches `Upload-Length` uploads it as
+ * the last part and completes the object. Part N always holds bytes
+ * [(N-1)·size, N·size), so re-sending bytes after a lost state write just
+ * replaces the part.
+ *
+ * ## State
+ *
+ * One KV value per upload, `__tus:{id}`: a length-prefixed JSON header
+ * (`TusUploadState`) followed by the unflushed bytes, so offset and bytes are
+ * always written together. Progress is saved at the end of every PATCH, also
+ * when the client disconnects half-way. Entries expire with the upload;
+ * R2 aborts the orphaned multipart upload after 7 days. Completed uploads keep
+ * their state (offset = length, no bytes) until they expire, so HEAD reports
+ * them complete and a repeated final PATCH gets its 204 again.
+ *
+ * KV is eventually consistent: a client resuming through another location
+ * may read an older offset (409, then HEAD and retry). Concurrent PATCHes to
+ * one upload are not supported.
+ */
+
+import type { CacheKeyConfig, TusConfig, UploadConfig } from '../types';
+import { getContentType } from '../utils/content-type';
+import { SIGNED_URL_PARAMS } from '../utils/signed-url';
+import { isAllowedUploadType, payloadTooLarge } from './upload';
+import { purgeUrl } from './purge';
+
+export const TUS_VERSION = '1.0.0';
+export const TUS_PARAM = 'tus';
+/** Response headers tus clients read; exposed to scripts on CORS routes */
+export const TUS_EXPOSED_HEADERS = ['Location', 'Upload-Offset', 'Upload-Length', 'Upload-Expires', 'Tus-Resumable'];
+
+const TUS_EXTENSIONS = 'creation,expiration,termination';
+const STATE_PREFIX = '__tus:';
+const DEFAULT_EXPIRES_IN = 86400;
+
+const MIB = 1024 * 1024;
+const MIN_PART_SIZE = 5 * MIB;
+/** Unflushed bytes live in one KV value (25 MiB limit), so parts stay below that */
+const MAX_PART_SIZE = 24 * MIB;
+const MAX_PARTS = 10000;
+/** Largest upload the part scheme can hold (~234 GiB) */
+const MAX_UPLOAD_LENGTH = MAX_PART_SIZE * MAX_PARTS;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export interface TusUploadState {
+	key: string;
+	/** R2 multipart upload ID; empty for an empty upload, stored at creation */
+	uploadId: string;
+	/** Upload-Length */
+	length: number;
+	/** Upload-Offset: bytes in parts plus unflushed bytes */
+	offset: number;
+	partSize: number;
+	parts: R2UploadedPart[];
+	/** Upload-Metadata as sent at creation, echoed on HEAD */
+	metadata: string;
+	/** Expiry (ms since epoch) */
+	expires: number;
+}
+
+interface StoredUpload {
+	state: TusUploadState;
+	tail: Uint8Array;
+}
+
+/** Protocol headers for OPTIONS on routes with `uploads.tus` */
+export function tusOptionsHeaders(uploads: UploadConfig): Record<string, string> {
+	return {
+		'Tus-Resumable': TUS_VERSION,
+		'Tus-Version': TUS_VERSION,
+		'Tus-Extension': TUS_EXTENSIONS,
+		'Tus-Max-Size': String(Math.min(uploads.maxSize ?? MAX_UPLOAD_LENGTH, MAX_UPLOAD_LENGTH)),
+	};
+}
+
+/** 412 unless the request speaks tus 1.0.0 */
+export function checkTusResumable(request: Request): Response | null {
+	if (request.headers.get('Tus-Resumable') === TUS_VERSION) return null;
+	return tusResponse(null, 412, { 'Tus-Version': TUS_VERSION });
+}
+
+// ── Operations ───────────────────────────────────────────────────────────────
+
+/**
+ * Creation: start an R2 multipart upload for `key` and answer 201 with the
+ * upload URL. `filetype` in Upload-Metadata becomes the Content-Type
+ * (extension-based otherwise); the other metadata pairs become customMetadata.
+ */
+export async function createTusUpload(opts: {
+	bucket: R2Bucket;
+	kv: KVNamespace;
+	key: string;
+	url: string;
+	request: Request;
+	uploads: UploadConfig;
+	tus: TusConfig;
+}): Promise<Response> {
+	const { bucket, kv, key, request, uploads, tus } = opts;
+
+	const rawLength = request.headers.get('Upload-Length');
+	if (rawLength === null || !/^\d+$/.test(rawLength)) {
+		// Upload-Defer-Length is an extension we don't offer
+		return tusResponse('Upload-Length header is required', 400);
+	}
+	const length = Number(rawLength);
+	if (length > MAX_UPLOAD_LENGTH) return tusResponse(`Upload-Length exceeds ${MAX_UPLOAD_LENGTH} bytes`, 413);
+	if (uploads.maxSize !== undefined && length > uploads.maxSize) return payloadTooLarge(uploads.maxSize);
+
+	const rawMetadata = request.headers.get('Upload-Metadata') ?? '';
+	const metadata = parseUploadMetadata(rawMetadata);
+	if (!metadata) return tusResponse('Malformed Upload-Metadata header', 400);
+
+	const { filetype, ...customMetadata } = metadata;
+	const contentType = filetype || getContentType(key);
+	if (!isAllowedUploadType(contentType, uploads)) return tusResponse('Unsupported Media Type', 415);
+
+	const id = crypto.randomUUID().replace(/-/g, '');
+	// A signed link stays valid for the upload's URL (same path), so it is carried over
+	const requested = new URL(opts.url);
+	const location = new URL(requested.pathname, requested.origin);
+	for (const name of SIGNED_URL_PARAMS) {
+		const value = requested.searchParams.get(name);
+		if (value !== null) location.searchParams.set(name, value);
+	}
+	location.searchParams.set(TUS_PARAM, id);
+
+	const expires = Date.now() + (tus.expiresIn ?? DEFAULT_EXPIRES_IN) * 1000;
+	const headers = { Location: location.toString(), 'Upload-Expires': new Date(expires).toUTCString() };
+
+	// Nothing to resume for an empty file; store it right away
+	let uploadId = '';
+	if (length === 0) {
+		await bucket.put(key, new Uint8Array(0), { httpMetadata: { contentType }, customMetadata });
+	} else {
+		uploadId = (await bucket.createMultipartUpload(key, { httpMetadata: { contentType }, customMetadata })).uploadId;
+	}
+	const state: TusUploadState = {
+		key,
+		uploadId,
+		length,
+		offset: 0,
+		partSize: getPartSize(length),
+		parts: [],
+		metadata: rawMetadata,
+		expires,
+	};
+	await saveUpload(kv, id, { state, tail: new Uint8Array(0) });
+
+	if (length === 0) console.log(`tus upload ${id} for key "${key}" created empty and completed`);
+	else console.log(`tus upload ${id} created for key "${key}" (${length} bytes, ${state.partSize}-byte parts)`);
+	return tusResponse(null, 201, headers);
+}
+
+/** HEAD: the upload's offset and length */
+export async function getTusUpload(opts: { kv: KVNamespace; key: string; id: string }): Promise<Response> {
+	const stored = await loadUpload(opts.kv, opts.id, opts.key);
+	if (!stored) return tusResponse(null, 404);
+
+	const { state } = stored;
+	const headers: Record<string, string> = {
+		'Upload-Offset': String(state.offset),
+		'Upload-Length': String(state.length),
+		'Upload-Expires': new Date(state.expires).toUTCString(),
+	};
+	if (state.metadata) headers['Upload-Metadata'] = state.metadata;
+	return tusResponse(null, 200, headers);
+}
+
+/**
+ * PATCH: append the body at `Upload-Offset`. Full parts go to R2 as soon as
+ * they fill up; the rest is saved with the state. Answers 204 with the new
+ * offset, 409 on an offset mismatch and 415 without the tus content type.
+ * A completed upload answers 204 with its final offset, whatever was sent —
+ * the client is retrying a final PATCH whose response it never saw.
+ */
+export async function patchTusUpload(opts: {
+	bucket: R2Bucket;
+	kv: KVNamespace;
+	key: string;
+	id: string;
+	url: string;
+	request: Request;
+	kvCache?: KVNamespace;
+	/** The route's cache key policy, for purging `url` on completion */
+	cacheKey?: CacheKeyConfig;
+}): Promise<Response> {
+	const { bucket, kv, key, id, request } = opts;
+
+	if (request.headers.get('Content-Type') !== 'application/offset+octet-stream') {
+		return tusResponse('Content-Type must be application/offset+octet-stream', 415);
+	}
+	const stored = await loadUpload(kv, id, key);
+	if (!stored) return tusResponse(null, 404);
+
+	const { state } = stored;
+	if (state.offset === state.length) {
+		await request.body?.cancel();
+		return tusResponse(null, 204, { 'Upload-Offset': String(state.offset) });
+	}
+	if (request.headers.get('Upload-Offset') !== String(state.offset)) {
+		return tusResponse(`Upload-Offset must be ${state.offset}`, 409);
+	}
+
+	const multipart = bucket.resumeMultipartUpload(key, state.uploadId);
+	const buffer = new Uint8Array(state.partSize);
+	buffer.set(stored.tail);
+	let filled = stored.tail.length;
+	let overflow = false;
+
+	const flushPart = async () => {
+		const partNumber = state.parts.length + 1;
+		const part = await multipart.uploadPart(partNumber, buffer.subarray(0, filled));
+		state.parts.push(part);
+		filled = 0;
+	};
+
+	try {
+		const reader = request.body?.getReader();
+		while (reader) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			if (state.offset + value.length > state.length) {
+				overflow = true;
+				await reader.cancel();
+				break;
+			}
+			for (let pos = 0; pos < value.length;) {
+				const n = Math.min(value.length - pos, state.partSize - filled);
+				buffer.set(value.subarray(pos, pos + n), filled);
+				filled += n;
+				pos += n;
+				state.offset += n;
+				if (filled === state.partSize && state.offset < state.length) await flushPart();
+			}
+		}
+
+		if (state.offset === state.length) {
+			if (filled) await flushPart();
+			await multipart.complete(state.parts);
+			await saveUpload(kv, id, { state, tail: new Uint8Array(0) });
+			await purgeUrl(opts.url, opts.kvCache, opts.cacheKey);
+			console.log(`tus upload ${id} completed for key "${key}" (${state.length} bytes, ${state.parts.length} parts)`);
+			return tusResponse(null, 204, { 'Upload-Offset': String(state.offset) });
+		}
+	} finally {
+		// Keep whatever arrived, also when the client went away mid-body
+		if (state.offset < state.length) {
+			await saveUpload(kv, id, { state, tail: buffer.subarray(0, filled) });
+		}
+	}
+
+	if (overflow) return tusResponse('Body exceeds Upload-Length', 400, { 'Upload-Offset': String(state.offset) });
+	return tusResponse(null, 204, {
+		'Upload-Offset': String(state.offset),
+		'Upload-Expires': new Date(state.expires).toUTCString(),
+	});
+}
+
+/** DELETE: abort the R2 multipart upload and forget the state; a completed upload's object stays */
+export async function terminateTusUpload(opts: { bucket: R2Bucket; kv: KVNamespace; key: string; id: string }): Promise<Response> {
+	const { bucket, kv, key, id } = opts;
+	const stored = await loadUpload(kv, id, key);
+	if (!stored) return tusResponse(null, 404);
+
+	const { state } = stored;
+	try {
+		if (state.offset < state.length) await bucket.resumeMultipartUpload(key, state.uploadId).abort();
+	} catch (err) {
+		// Already gone on the R2 side (e.g. aborted by lifecycle); forget it anyway
+		console.log(`tus upload ${id}: abort failed: ${err instanceof Error ? err.message : err}`);
+	}
+	await kv.delete(stateKey(id));
+	console.log(`tus upload ${id} terminated for key "${key}"`);
+	return tusResponse(null, 204);
+}
+
+// ── State ────────────────────────────────────────────────────────────────────
+
+function stateKey(id: string): string {
+	return `${STATE_PREFIX}${id}`;
+}
+
+/** The stored upload, or null if it's unknown, expired or belongs to another key */
+async function loadUpload(kv: KVNamespace, id: string, key: string): Promise<StoredUpload | null> {
+	if (!/^[0-9a-f]{32}$/.test(id)) return null;
+	const value = await kv.get(stateKey(id), { type: 'arrayBuffer' });
+	if (!value) return null;
+
+	const bytes = new Uint8Array(value);
+	const headerLength = new DataView(value).getUint32(0);
+	const state = JSON.parse(decoder.decode(bytes.subarray(4, 4 + headerLength))) as TusUploadState;
+	if (state.key !== key || state.expires <= Date.now()) return null;
+	return { state, tail: bytes.subarray(4 + headerLength) };
+}
+
+async function saveUpload(kv: KVNamespace, id: string, { state, tail }: StoredUpload): Promise<void> {
+	const header = encoder.encode(JSON.stringify(state));
+	const value = new Uint8Array(4 + header.length + tail.length);
+	new DataView(value.buffer).setUint32(0, header.length);
+	value.set(header, 4);
+	value.set(tail, 4 + header.length);
+
+	// KV's minimum TTL is 60 seconds
+	const expirationTtl = Math.max(60, Math.ceil((state.expires - Date.now()) / 1000));
+	await kv.put(stateKey(id), value, { expirationTtl });
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Smallest whole-MiB part size that fits the upload in 10000 parts */
+function getPartSize(length: number): number {
+	return Math.max(MIN_PART_SIZE, Math.ceil(length / MAX_PARTS / MIB) * MIB);
+}
+
+/**
+ * Parse `Upload-Metadata`: comma-separated "key base64value" pairs, where the
+ * value may be omitted. Returns null if the header is malformed.
+ */
+export function parseUploadMetadata(header: string): Record<string, string> | null {
+	const metadata: Record<string, string> = {};
+	if (!header.trim()) return metadata;
+
+	for (const pair of header.split(',')) {
+		const [name, value, ...rest] = pair.trim().split(' ');
+		if (!name || rest.length || name in metadata) return null;
+		try {
+			// Plain (padded) base64, unlike the base64url in utils/crypto.ts
+			metadata[name] = value ? decoder.decode(Uint8Array.from(atob(value), (c) => c.charCodeAt(0))) : '';
+		} catch {
+			return null;
+		}
+	}
+	return metadata;
+}
+
+function tusResponse(body: string | null, status: number, headers: Record<string, string> = {}): Response {
+	return new Response(body, {
+		status,
+		headers: {
+			'Tus-Resumable': TUS_VERSION,
+			'Cache-Control': 'no-store',
+			...(body !== null ? { 'Content-Type': 'text/plain' } : {}),
+			...headers,
+		},
+	});
+}
@@ -0,0 +1,148 @@
+/**
+ * Object writes (PUT, DELETE) for routes with `uploads` enabled.
+ *
+ * The request body is streamed straight into R2 — never buffered — so the
+ * client must send Content-Length (R2 needs the size of a streamed body up
+ * front). Metadata comes from the request headers:
+ *
+ * | Request header | Stored as |
+ * |----------------|-----------|
+ * | Content-Type | httpMetadata.contentType (extension-based when missing) |
+ * | Content-Disposition | httpMetadata.contentDisposition |
+ * | Content-Encoding | httpMetadata.contentEncoding |
+ * | Content-Language | httpMetadata.contentLanguage |
+ * | Cache-Control | httpMetadata.cacheControl |
+ * | x-amz-meta-{name} | customMetadata[name] |
+ *
+ * If-Match / If-None-Match are passed to R2 as `onlyIf`, so clients can do
+ * create-only (`If-None-Match: *`) or compare-and-swap writes.
+ */
+
+import type { NamedBucket, UploadConfig } from '../types';
+import { getContentType, getObjectType } from '../utils/content-type';
+
+const CUSTOM_METADATA_PREFIX = 'x-amz-meta-';
+
+/** Check size and type limits before any bytes are read; null if the upload may proceed */
+export function checkUploadLimits(request: Request, key: string, uploads: UploadConfig): Response | null {
+	return checkBodyLength(request, uploads.maxSize) ?? checkContentType(request, key, uploads);
+}
+
+/** 411 without a Content-Length, 413 above `maxSize` */
+export function checkBodyLength(request: Request, maxSize: number | undefined): Response | null {
+	const contentLength = request.headers.get('Content-Length');
+	if (contentLength === null || !/^\d+$/.test(contentLength)) {
+		return textResponse('Length Required', 411);
+	}
+	if (maxSize !== undefined && Number(contentLength) > maxSize) {
+		return payloadTooLarge(maxSize);
+	}
+	return null;
+}
+
+/** 415 if the upload's Content-Type isn't allowed on the route */
+export function checkContentType(request: Request, key: string, uploads: UploadConfig): Response | null {
+	if (!isAllowedUploadType(getUploadContentType(request, key), uploads)) {
+		return textResponse('Unsupported Media Type', 415);
+	}
+	return null;
+}
+
+/** Check a Content-Type against `allowedContentTypes` and `allowedObjectTypes` */
+export function isAllowedUploadType(contentType: string, uploads: UploadConfig): boolean {
+	const type = contentType.split(';')[0].trim().toLowerCase();
+	if (uploads.allowedContentTypes && !matchesContentType(type, uploads.allowedContentTypes)) return false;
+	if (uploads.allowedObjectTypes && !uploads.allowedObjectTypes.includes(getObjectType(type))) return false;
+	return true;
+}
+
+export function payloadTooLarge(maxSize: number): Response {
+	return textResponse(`Payload Too Large (max ${maxSize} bytes)`, 413);
+}
+
+/** Plain-text response for upload errors */
+export function textResponse(body: string, status: number): Response {
+	return new Response(body, { status, headers: { 'Content-Type': 'text/plain' } });
+}
+
+/**
+ * Stream a PUT body into R2. Returns 201 with the stored object's key, size
+ * and ETag, 412 if an If-Match / If-None-Match precondition failed, or the
+ * limit response from `checkUploadLimits()`.
+ */
+export async function putObject(opts: { bucket: R2Bucket; key: string; request: Request; uploads: UploadConfig }): Promise<Response> {
+	const { bucket, key, request, uploads } = opts;
+
+	const rejected = checkUploadLimits(request, key, uploads);
+	if (rejected) return rejected;
+
+	const object = await bucket.put(key, request.body ?? new Uint8Array(0), {
+		httpMetadata: getUploadHttpMetadata(request, key),
+		customMetadata: getUploadCustomMetadata(request.headers),
+		onlyIf: request.headers,
+	});
+
+	if (!object) {
+		console.log(`Upload precondition failed for key "${key}"`);
+		return textResponse('Precondition Failed', 412);
+	}
+
+	console.log(`Uploaded key "${key}" (${object.size} bytes, etag ${object.httpEtag})`);
+	return uploadedResponse(object, 201);
+}
+
+/**
+ * Delete an object from every bucket of the route's fallback chain — left in
+ * a later bucket, the next GET would serve it from there. Like S3, deleting
+ * a missing key still answers 204 — the caller wanted it gone, and it is.
+ */
+export async function deleteObject(opts: { buckets: NamedBucket[]; key: string }): Promise<Response> {
+	const { buckets, key } = opts;
+	await Promise.all(buckets.map(({ bucket }) => bucket.delete(key)));
+	console.log(`Deleted key "${key}" from ${buckets.map(({ name }) => name).join(', ')}`);
+	return new Response(null, { status: 204 });
+}
+
+/** JSON summary of a stored object, with its ETag */
+export function uploadedResponse(object: R2Object, status: number): Response {
+	return Response.json(
+		{ key: object.key, size: object.size, etag: object.httpEtag, uploaded: object.uploaded.toISOString() },
+		{ status, headers: { ETag: object.httpEtag } },
+	);
+}
+
+// ── Metadata ─────────────────────────────────────────────────────────────────
+
+export function getUploadHttpMetadata(request: Request, key: string): R2HTTPMetadata {
+	const headers = request.headers;
+	return {
+		contentType: getUploadContentType(request, key),
+		contentDisposition: headers.get('Content-Disposition') ?? undefined,
+		contentEncoding: headers.get('Content-Encoding') ?? undefined,
+		contentLanguage: headers.get('Content-Language') ?? undefined,
+		cacheControl: headers.get('Cache-Control') ?? undefined,
+	};
+}
+
+/** `x-amz-meta-*` request headers, keyed by the name after the prefix */
+export function getUploadCustomMetadata(headers: Headers): Record<string, string> {
+	const metadata: Record<string, string> = {};
+	for (const [name, value] of headers) {
+		if (name.startsWith(CUSTOM_METADATA_PREFIX) && name.length > CUSTOM_METADATA_PREFIX.length) {
+			metadata[name.slice(CUSTOM_METADATA_PREFIX.length)] = value;
+		}
+	}
+	return metadata;
+}
+
+function getUploadContentType(request: Request, key: string): string {
+	return request.headers.get('Content-Type') ?? getContentType(key);
+}
+
+/** "image/*" matches any image type */
+function matchesContentType(type: string, allowed: string[]): boolean {
+	return allowed.some((pattern) => {
+		const p = pattern.toLowerCase();
+		return p.endsWith('/*') ? type.startsWith(p.slice(0, -1)) : type === p;
+	});
+}
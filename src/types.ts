@@ -14,6 +14,12 @@ export interface Env {
 	S3_SECRET_ACCESS_KEY: string;
 	ENVIRONMENT: string;
 	CDN_CACHE?: KVNamespace;
+	/** Bearer token for the /_admin API (secret). Admin API is disabled without it */
+	ADMIN_TOKEN?: string;
+	/** Zone whose edge cache /_admin/purge also purges (with PURGE_API_TOKEN) */
+	PURGE_ZONE_ID?: string;
+	/** API token with Cache Purge permission on PURGE_ZONE_ID (secret) */
+	PURGE_API_TOKEN?: string;
 	[key: string]: unknown;
 }
 
@@ -22,19 +28,273 @@ export interface Env {
 export interface BucketRoute {
 	/** Hostname glob, e.g. "cdn.erfianugrah.com" or "*.erfi.dev" */
 	host: string;
-	/** Path prefix, e.g. "/" or "/images". Must start with "/" */
-	pathPrefix: string;
-	/** Name of the R2 binding in wrangler config */
-	bucket: string;
+	/** Path prefix, e.g. "/" or "/images". Must start with "/". Required unless pathPattern is set */
+	pathPrefix?: string;
+	/**
+	 * Path pattern with named captures, e.g. "/u/:tenant/*". Takes precedence
+	 * over pathPrefix. ":name" captures one segment, a trailing "*" captures
+	 * the rest of the path as "rest".
+	 */
+	pathPattern?: string;
+	/**
+	 * Template for the R2 key, e.g. "tenants/{tenant}/{rest}". Placeholders are
+	 * pathPattern captures plus "{rest}" (path after pathPrefix for prefix
+	 * routes) and "{path}" (full path without the leading "/").
+	 */
+	keyTemplate?: string;
+	/** Name of the R2 binding in wrangler config. Required unless buckets is set */
+	bucket?: string;
+	/**
+	 * Ordered fallback chain of R2 bindings, e.g. ["R2_NEW", "R2_OLD"]. Used
+	 * instead of bucket during migrations: a 404 in one bucket tries the next.
+	 */
+	buckets?: string[];
+	/**
+	 * If true, an object served from a later bucket in the chain is copied
+	 * into the first bucket in the background so the old bucket can drain.
+	 */
+	promoteOnFallback?: boolean;
 	/** Actual R2 bucket name for S3 API access */
 	bucketName: string;
-	/** If true, the pathPrefix is stripped from the R2 key */
+	/** If true, the pathPrefix is stripped from the R2 key (ignored when keyTemplate is set) */
 	stripPrefix?: boolean;
+	/** Per-route cache policy, deep-merged over the global CACHE config */
+	cache?: CacheConfigOverride;
+	/** Static-site hosting mode (index documents, custom 404 / SPA fallback) */
+	site?: SiteConfig;
+	/** Redirect rules, checked before the object key is resolved */
+	redirects?: RedirectConfig;
+	/** Require authentication to read from this route */
+	auth?: RouteAuthConfig;
+	/** Referer/Origin allowlist against hotlinking */
+	hotlink?: HotlinkConfig;
+	/** Geo / network allow and deny rules */
+	access?: AccessConfig;
+	/** CORS headers and OPTIONS preflight handling */
+	cors?: CorsConfig;
+	/** Accept authenticated writes (PUT) to this route */
+	uploads?: UploadConfig;
+	/** Directory listings (HTML or JSON) for URLs that address a prefix */
+	listing?: ListingConfig;
+	/** Read-only S3-compatible API (ListObjectsV2, HeadObject, GetObject) instead of plain object serving */
+	s3Api?: S3ApiConfig;
+	/** Answer `?meta` with the object's metadata as JSON. Default false (the parameter is ignored) */
+	meta?: boolean;
+}
+
+/**
+ * Writes are authorized by `Authorization: Bearer <token>` matching the
+ * secret named by `tokenBinding`, or — with `allowSignedUrls` — by a signed
+ * URL minted for the request's method (see utils/signed-url.ts).
+ */
+export interface UploadConfig {
+	/** Name of the secret holding the upload bearer token. Default "UPLOAD_TOKEN" */
+	tokenBinding?: string;
+	/** Accept method-bound signed URLs. Default false */
+	allowSignedUrls?: boolean;
+	/** Secret for signed upload URLs. Default "URL_SIGNING_SECRET" */
+	secretBinding?: string;
+	/** Largest accepted body in bytes (413 above). Default unlimited */
+	maxSize?: number;
+	/** Accepted Content-Types; "type/*" matches a whole family (415 otherwise). Default any */
+	allowedContentTypes?: string[];
+	/** Accepted object types, classified from the Content-Type (415 otherwise). Default any */
+	allowedObjectTypes?: ObjectType[];
+	/**
+	 * Key for files from multipart/form-data POSTs. Placeholders: {prefix}
+	 * (the key of the directory posted to, with trailing slash), {date}
+	 * (YYYY-MM-DD, UTC), {uuid}, {filename} (sanitized).
+	 * Default "{prefix}{date}/{uuid}-{filename}"
+	 */
+	formKeyTemplate?: string;
+	/** Resumable uploads over the tus 1.0 protocol (see services/tus.ts). Default off */
+	tus?: TusConfig;
+}
+
+/** Upload state (offset, parts, unflushed bytes) is kept in KV between requests */
+export interface TusConfig {
+	/** KV namespace binding for upload state */
+	binding: string;
+	/** Seconds an unfinished upload can be resumed. Default 86400 (1 day) */
+	expiresIn?: number;
+}
+
+export interface CorsConfig {
+	/** "*" or origins with optional host wildcards, e.g. "https://*.erfianugrah.com" */
+	allowedOrigins: string[];
+	/** Methods allowed in preflights. Default ["GET", "HEAD"] */
+	allowedMethods?: string[];
+	/** Request headers allowed in preflights. Default: whatever the preflight asks for */
+	allowedHeaders?: string[];
+	/** Response headers readable by scripts. Default Content-Length, Content-Range, ETag, Accept-Ranges */
+	exposedHeaders?: string[];
+	/** Access-Control-Max-Age for preflights (seconds). Default 86400 */
+	maxAge?: number;
+	/** Send Access-Control-Allow-Credentials (the origin is echoed instead of "*"). Default false */
+	allowCredentials?: boolean;
+}
+
+/**
+ * Geo and IP access rules, evaluated from `request.cf` and CF-Connecting-IP
+ * before any cache lookup. The first matching rule decides; requests no rule
+ * matches get `defaultAction`.
+ */
+export interface AccessConfig {
+	rules: AccessRule[];
+	/** Action when no rule matches. Default "allow" */
+	defaultAction?: 'allow' | 'deny';
+	/** Status for denied requests. Default 403 (use 451 for licensing restrictions) */
+	status?: AccessDenyStatus;
+	/** R2 key served (uncached) with the deny status instead of plain text */
+	errorDocument?: string;
+}
+
+export type AccessDenyStatus = 403 | 451;
+
+/**
+ * A rule matches when every criterion it sets matches (lists match on any
+ * entry). A rule with only `keyPrefix` matches every request for that prefix.
+ */
+export interface AccessRule {
+	action: 'allow' | 'deny';
+	/** Only apply to object keys starting with this prefix */
+	keyPrefix?: string;
+	/** ISO 3166-1 alpha-2 codes from request.cf.country, e.g. ["DE", "AT"] */
+	countries?: string[];
+	/** Continent codes from request.cf.continent: AF, AN, AS, EU, NA, OC, SA */
+	continents?: string[];
+	/** Autonomous system numbers from request.cf.asn */
+	asns?: number[];
+	/** IPv4/IPv6 addresses or CIDRs matched against CF-Connecting-IP */
+	ips?: string[];
+	/** Status override for this rule when it denies */
+	status?: AccessDenyStatus;
+}
+
+/**
+ * Hotlink protection. Requests whose Referer (or Origin, when there is no
+ * Referer) host isn't allowed get the configured action. The request's own
+ * host is always allowed.
+ */
+export interface HotlinkConfig {
+	/** Host patterns with the same wildcard syntax as route hosts, e.g. "*.erfianugrah.com" */
+	allowedReferers: string[];
+	/** Allow requests without Referer/Origin (direct visits, privacy-stripped referers). Default true */
+	allowEmpty?: boolean;
+	/** What to do on a violation. Default "forbid" (403) */
+	action?: 'forbid' | 'redirect' | 'substitute';
+	/** Absolute URL for action "redirect" (302) */
+	redirectUrl?: string;
+	/** R2 key served instead of the object for action "substitute" (never cached) */
+	substituteKey?: string;
+}
+
+export type RouteAuthConfig = SignedUrlAuthConfig | JwtAuthConfig;
+
+/** Require `?exp=...&sig=...` (see utils/signed-url.ts) */
+export interface SignedUrlAuthConfig {
+	type: 'signed-url';
+	/** Name of the secret binding holding the HMAC key. Default "URL_SIGNING_SECRET" */
+	secretBinding?: string;
+}
+
+/**
+ * Require `Authorization: Bearer <jwt>` (see utils/jwt.ts). Responses are
+ * served with `private` Cache-Control and never enter the Cache API / KV.
+ */
+export interface JwtAuthConfig {
+	type: 'jwt';
+	/** Name of the var/secret holding the JWKS JSON (`{"keys": [...]}`). Default "JWKS" */
+	jwksBinding?: string;
+	/** Read the JWKS from KV instead of a var/secret */
+	jwksKv?: JwksKVConfig;
+	/** Accepted signing algorithms. Default all of RS256, ES256, HS256 */
+	algorithms?: ('RS256' | 'ES256' | 'HS256')[];
+	/** Required `aud` (any of, when an array) */
+	audience?: string | string[];
+	/** Required `iss` (any of, when an array) */
+	issuer?: string | string[];
+	/** Claim listing the key prefixes the token may read (string or string[]) */
+	prefixClaim?: string;
+	/** Seconds of clock skew tolerated for exp/nbf. Default 60 */
+	clockTolerance?: number;
+}
+
+export interface JwksKVConfig {
+	/** KV namespace binding name */
+	binding: string;
+	/** Key holding the JWKS JSON */
+	key: string;
+	/** Seconds to reuse the fetched JWKS per isolate. Default 300 */
+	cacheTtl?: number;
+}
+
+export interface SiteConfig {
+	/** Appended to keys ending in "/" and tried as "{key}/{indexDocument}" on misses. Default "index.html" */
+	indexDocument?: string;
+	/** R2 key served with status 404 when nothing matches, e.g. "404.html" */
+	notFoundDocument?: string;
+	/** R2 key served with status 200 when nothing matches (single-page apps), e.g. "index.html" */
+	spaFallback?: string;
+}
+
+export interface ListingConfig {
+	/** Seconds listings are cached (Cache API), independent of the object TTLs. Default 60 */
+	maxAge?: number;
+	/** Entries per page, 1-1000. Default 1000 */
+	pageSize?: number;
+}
+
+/**
+ * The route answers S3 requests for one bucket: path-style clients use the
+ * route's host as endpoint and its pathPrefix ("/{bucket}") as bucket,
+ * virtual-hosted clients a "{bucket}.{endpoint}" host route on "/".
+ */
+export interface S3ApiConfig {
+	/** Bucket name reported to clients (`<Name>` in listings) */
+	bucket: string;
 }
 
 export interface BucketRoutingConfig {
 	routes: BucketRoute[];
 	defaultBucket: string;
+	/** Read the routes from KV instead (falls back to `routes` if the key is missing or invalid) */
+	kv?: RoutingKVConfig;
+}
+
+export interface RoutingKVConfig {
+	/** Name of the KV namespace binding */
+	binding: string;
+	/** KV key holding the JSON array of routes */
+	key: string;
+	/** Seconds the routes are cached per isolate. Default 30 */
+	cacheTtl?: number;
+}
+
+/** An R2 binding together with its binding name (for logs and X-Fetch-Via) */
+export interface NamedBucket {
+	name: string;
+	bucket: R2Bucket;
+}
+
+export type RedirectStatus = 301 | 302 | 307 | 308;
+
+export interface RedirectRule {
+	/** Source path pattern, e.g. "/blog/:slug" or "/old/*" */
+	from: string;
+	/** Target path or URL; ":name" and ":splat" are replaced with the captures */
+	to: string;
+	/** Default 301 */
+	status?: RedirectStatus;
+}
+
+export interface RedirectConfig {
+	/** Rules declared inline, checked before the file rules */
+	rules?: RedirectRule[];
+	/** R2 key of a Netlify-style redirects file in the routed bucket, e.g. "_redirects" */
+	file?: string;
+	/** Seconds the parsed file is cached per isolate. Default 60 */
+	fileTtl?: number;
 }
 
 // ── S3 API access (alternative to R2 binding) ────────────────────────────────
@@ -72,6 +332,44 @@ export interface CacheConfig {
 	bypassParamName: string;
 	cacheTags: CacheTagConfig;
 	objectTypeConfig: Record<string, ObjectTypeCacheConfig>;
+	/** How request URLs are normalized into Cache API / KV keys. Unset: the full URL */
+	cacheKey?: CacheKeyConfig;
+}
+
+/**
+ * Cache key normalization (see utils/cache-key.ts). Parameter names ending
+ * in "*" match by prefix, e.g. "utm_*".
+ */
+export interface CacheKeyConfig {
+	/** Query parameters removed from the key */
+	dropParams?: string[];
+	/** Only these query parameters are kept (dropParams still applies) */
+	allowParams?: string[];
+	/** Sort the remaining query parameters by name */
+	sortParams?: boolean;
+	/** Lowercase the host and strip a trailing "." */
+	lowercaseHost?: boolean;
+	/** Key http:// and https:// requests alike (as https://) */
+	ignoreScheme?: boolean;
+}
+
+/**
+ * Partial CacheConfig carried by a route. Nested objects are merged key by
+ * key (cacheTags and cacheKey fields, objectTypeConfig entries); arrays replace.
+ */
+export interface CacheConfigOverride extends Partial<Omit<CacheConfig, 'cacheTags' | 'objectTypeConfig'>> {
+	cacheTags?: Partial<CacheTagConfig>;
+	objectTypeConfig?: Record<string, ObjectTypeCacheConfig>;
+}
+
+// ── Resolved config ───────────────────────────────────────────────────────────
+
+/** Validated configuration with all defaults applied (see utils/config.ts) */
+export interface ResolvedConfig {
+	routing: BucketRoutingConfig;
+	cache: CacheConfig;
+	storage: StorageConfig;
+	s3?: S3Config;
 }
 
 // ── Object types ──────────────────────────────────────────────────────────────
@@ -88,11 +386,21 @@ export type ObjectType =
 
 // ── Hono context variables ────────────────────────────────────────────────────
 
-/** Variables set by bucket-router middleware */
+/** Variables set by the config-loader and bucket-router middleware */
 export interface AppVariables {
+	/** Validated BUCKET_ROUTING / CACHE / STORAGE / S3 config */
+	config: ResolvedConfig;
 	bucket: R2Bucket;
 	bucketName: string;
+	/** Remaining buckets of the route's fallback chain (empty for single-bucket routes) */
+	fallbackBuckets: NamedBucket[];
 	/** Actual R2 bucket name (for S3 API access) */
 	r2BucketName: string;
 	objectKey: string;
+	/** The matched route, if any (undefined when the default bucket is used) */
+	route?: BucketRoute;
+	/** Captures from the matched route's pathPattern / pathPrefix */
+	routeParams: Record<string, string>;
+	/** Global CACHE config with the matched route's overrides applied */
+	cacheConfig: CacheConfig;
 }
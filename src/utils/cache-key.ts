@@ -0,0 +1,42 @@
+import type { CacheKeyConfig } from '../types';
+
+/**
+ * Build the cache key URL for a request (used for both the Cache API and KV).
+ *
+ * The route's `cacheKey` policy keeps variants of one URL from fragmenting
+ * the cache: tracking parameters (`utm_*`), the worker's own switches
+ * (`tags`, `via`, the bypass parameter) and parameter order would otherwise
+ * each produce their own entry. Applied in order:
+ *
+ * 1. `ignoreScheme` — http:// becomes https://
+ * 2. `lowercaseHost` — lowercase, without a trailing "."
+ * 3. `allowParams` — every other query parameter is removed
+ * 4. `dropParams` (plus `extraDropParams`, e.g. the per-link `exp`/`sig` of
+ *    signed URLs) — removed
+ * 5. `sortParams` — stable sort by name, so repeated parameters keep their order
+ *
+ * Parameter names ending in "*" match by prefix.
+ */
+export function buildCacheKey(url: string, policy: CacheKeyConfig = {}, extraDropParams: readonly string[] = []): string {
+	const parsed = new URL(url);
+
+	if (policy.ignoreScheme && parsed.protocol === 'http:') {
+		parsed.protocol = 'https:';
+	}
+	if (policy.lowercaseHost) {
+		parsed.hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+	}
+
+	const params = parsed.searchParams;
+	const dropParams = [...(policy.dropParams ?? []), ...extraDropParams];
+	for (const name of new Set(params.keys())) {
+		const allowed = !policy.allowParams || matchesParam(name, policy.allowParams);
+		if (!allowed || matchesParam(name, dropParams)) params.delete(name);
+	}
+	if (policy.sortParams) params.sort();
+	return parsed.toString();
+}
+
+function matchesParam(name: string, patterns: readonly string[]): boolean {
+	return patterns.some((pattern) => (pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern));
+}
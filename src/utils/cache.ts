@@ -1,6 +1,33 @@
-import type { CacheConfig, ObjectType } from '../types';
+import type { CacheConfig, CacheConfigOverride, ObjectType, ObjectTypeCacheConfig } from '../types';
 import { getContentType } from './content-type';
 
+// ── Per-route overrides ───────────────────────────────────────────────────────
+
+/**
+ * Deep-merge a route's cache override over the global config. cacheTags and
+ * cacheKey are merged field by field, objectTypeConfig entry by entry (so a
+ * route can change the video maxAge without dropping the global video tags).
+ * Arrays such as defaultTags or dropParams replace rather than concatenate.
+ */
+export function mergeCacheConfig(base: CacheConfig, override?: CacheConfigOverride): CacheConfig {
+	if (!override) return base;
+
+	const { cacheTags, cacheKey, objectTypeConfig, ...scalars } = override;
+
+	const mergedTypes: Record<string, ObjectTypeCacheConfig> = { ...base.objectTypeConfig };
+	for (const [type, typeConfig] of Object.entries(objectTypeConfig ?? {})) {
+		mergedTypes[type] = { ...mergedTypes[type], ...typeConfig };
+	}
+
+	return {
+		...base,
+		...scalars,
+		cacheTags: { ...base.cacheTags, ...cacheTags },
+		cacheKey: cacheKey ? { ...base.cacheKey, ...cacheKey } : base.cacheKey,
+		objectTypeConfig: mergedTypes,
+	};
+}
+
 // ── Cache tags ────────────────────────────────────────────────────────────────
 
 export function generateCacheTags(
@@ -43,14 +70,18 @@ export function generateCacheTags(
 export function buildCacheControl(
 	objectType: ObjectType | undefined,
 	cacheConfig: CacheConfig,
+	opts: { private?: boolean } = {},
 ): string {
 	const otConfig = objectType ? cacheConfig.objectTypeConfig[objectType] : undefined;
 	const maxAge = otConfig?.maxAge ?? cacheConfig.defaultMaxAge;
+	// Authenticated content: the browser may keep it, shared caches must not
+	if (opts.private) return `private, max-age=${maxAge}`;
 	const swr = cacheConfig.defaultStaleWhileRevalidate;
 
 	// NOTE: stale-while-revalidate is NOT supported by the Workers Cache API
-	// (cache.put/cache.match ignore it). It is included here for downstream
-	// clients and CDN layers (e.g. browsers, upstream proxies) that do honor it.
+	// (cache.put/cache.match ignore it). The KV tier honours it (see
+	// kv-cache.ts), as do downstream clients and CDN layers (e.g. browsers,
+	// upstream proxies).
 	return `public, max-age=${maxAge}, stale-while-revalidate=${swr}`;
 }
 
@@ -71,6 +102,8 @@ export function buildResponseHeaders(
 		host?: string;
 		customTags?: string[];
 		bypass?: boolean;
+		/** Per-user response: `private` Cache-Control, no Cache-Tag */
+		private?: boolean;
 	},
 ): Headers {
 	const headers = new Headers(r2Headers);
@@ -92,6 +125,11 @@ export function buildResponseHeaders(
 	// Prevent MIME-sniffing
 	headers.set('X-Content-Type-Options', 'nosniff');
 
+	if (extra.private) {
+		headers.set('Cache-Control', buildCacheControl(objectType, cacheConfig, { private: true }));
+		return headers;
+	}
+
 	if (extra.bypass) {
 		headers.set('Cache-Control', 'no-store, max-age=0');
 		return headers;
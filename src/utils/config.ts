@@ -0,0 +1,688 @@
+/**
+ * Configuration loader.
+ *
+ * Validates the BUCKET_ROUTING, CACHE, STORAGE and S3 vars once per isolate
+ * and applies defaults. Anything wrong (unknown keys, bad types, route paths
+ * without a leading "/", bucket bindings that don't exist) is collected into
+ * a single ConfigError so a misdeploy fails loudly with a 500 and the full
+ * report, instead of silently turning every request into a 404.
+ *
+ * ## Defaults
+ *
+ * | Var | Field | Default |
+ * |-----|-------|---------|
+ * | BUCKET_ROUTING | routes | `[]` |
+ * | BUCKET_ROUTING | defaultBucket | `"R2"` |
+ * | CACHE | defaultMaxAge | `86400` |
+ * | CACHE | defaultStaleWhileRevalidate | `86400` |
+ * | CACHE | cacheEnabled | `true` |
+ * | CACHE | bypassParamEnabled | `false` |
+ * | CACHE | bypassParamName | `"no-cache"` |
+ * | CACHE | cacheTags | `{ enabled: false, prefix: "", defaultTags: [] }` |
+ * | CACHE | objectTypeConfig | `{}` |
+ * | CACHE | cacheKey | unset (full request URL) |
+ * | STORAGE | maxRetries | `3` (must be >= 1) |
+ * | STORAGE | retryDelay | `1000` |
+ * | STORAGE | exponentialBackoff | `true` |
+ * | S3 | endpoint | unset (`?via=s3` disabled) |
+ */
+
+import type {
+	Env,
+	BucketRoute,
+	BucketRoutingConfig,
+	CacheConfig,
+	CacheKeyConfig,
+	CacheTagConfig,
+	ObjectTypeCacheConfig,
+	ResolvedConfig,
+	RoutingKVConfig,
+	JwksKVConfig,
+	StorageConfig,
+	S3Config,
+} from '../types';
+import { assertValidPathPattern } from './route-match';
+import { JWT_ALGORITHMS, parseJwks } from './jwt';
+import { parseCidr } from './ip';
+
+// ── Errors ───────────────────────────────────────────────────────────────────
+
+/** Thrown by loadConfig() with every problem found, not just the first */
+export class ConfigError extends Error {
+	readonly issues: string[];
+
+	constructor(issues: string[]) {
+		super(`Invalid configuration (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n- ${issues.join('\n- ')}`);
+		this.name = 'ConfigError';
+		this.issues = issues;
+	}
+}
+
+// ── Defaults ─────────────────────────────────────────────────────────────────
+
+const DEFAULT_CACHE: CacheConfig = {
+	defaultMaxAge: 86400,
+	defaultStaleWhileRevalidate: 86400,
+	cacheEnabled: true,
+	bypassParamEnabled: false,
+	bypassParamName: 'no-cache',
+	cacheTags: { enabled: false, prefix: '', defaultTags: [] },
+	objectTypeConfig: {},
+};
+
+const DEFAULT_STORAGE: StorageConfig = {
+	maxRetries: 3,
+	retryDelay: 1000,
+	exponentialBackoff: true,
+};
+
+const DEFAULT_BUCKET = 'R2';
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+// Env objects are stable for the lifetime of an isolate, so validation runs
+// once per env. Failures are cached too — a bad config stays bad until redeploy.
+const loaded = new WeakMap<object, ResolvedConfig | ConfigError>();
+
+/**
+ * Validate and resolve the worker configuration. Throws ConfigError listing
+ * every issue found. Results are memoized per env object.
+ */
+export function loadConfig(env: Env): ResolvedConfig {
+	let result = loaded.get(env);
+	if (!result) {
+		try {
+			result = resolveConfig(env);
+		} catch (err) {
+			if (!(err instanceof ConfigError)) throw err;
+			result = err;
+		}
+		loaded.set(env, result);
+	}
+	if (result instanceof ConfigError) throw result;
+	return result;
+}
+
+/** True if the value looks like an R2 bucket binding */
+export function isR2Bucket(value: unknown): value is R2Bucket {
+	return typeof value === 'object' && value !== null && typeof (value as R2Bucket).get === 'function' && typeof (value as R2Bucket).head === 'function';
+}
+
+/** True if the value looks like a KV namespace binding */
+export function isKVNamespace(value: unknown): value is KVNamespace {
+	return typeof value === 'object' && value !== null && typeof (value as KVNamespace).getWithMetadata === 'function';
+}
+
+/**
+ * Validate a list of routes. Exposed separately so routes loaded from other
+ * sources go through the same checks as BUCKET_ROUTING.
+ */
+export function validateRoutes(value: unknown, env: Env, path = 'BUCKET_ROUTING.routes'): { routes: BucketRoute[]; issues: string[] } {
+	const issues: string[] = [];
+	if (!Array.isArray(value)) {
+		issues.push(`${path} must be an array`);
+		return { routes: [], issues };
+	}
+	const routes = value.map((route, i) => validateRoute(route, env, `${path}[${i}]`, issues));
+	return { routes, issues };
+}
+
+// ── Sections ─────────────────────────────────────────────────────────────────
+
+function resolveConfig(env: Env): ResolvedConfig {
+	const issues: string[] = [];
+
+	const routing = validateRouting(env.BUCKET_ROUTING, env, issues);
+	const cache = validateCache(env.CACHE, issues);
+	const storage = validateStorage(env.STORAGE, issues);
+	const s3 = validateS3(env.S3, issues);
+
+	if (issues.length) throw new ConfigError(issues);
+	return { routing, cache, storage, s3 };
+}
+
+function validateRouting(value: unknown, env: Env, issues: string[]): BucketRoutingConfig {
+	const path = 'BUCKET_ROUTING';
+	if (value === undefined) return { routes: [], defaultBucket: checkBinding(DEFAULT_BUCKET, env, `${path}.defaultBucket`, issues) };
+	if (!isObject(value, path, issues)) return { routes: [], defaultBucket: DEFAULT_BUCKET };
+	checkKeys(value, ['routes', 'defaultBucket', 'kv'], path, issues);
+
+	const defaultBucket = readString(value, 'defaultBucket', path, issues) ?? DEFAULT_BUCKET;
+	checkBinding(defaultBucket, env, `${path}.defaultBucket`, issues);
+
+	let routes: BucketRoute[] = [];
+	if (value.routes !== undefined) {
+		const result = validateRoutes(value.routes, env, `${path}.routes`);
+		issues.push(...result.issues);
+		routes = result.routes;
+	}
+
+	const kv = value.kv === undefined ? undefined : validateKVSource(value.kv, env, `${path}.kv`, issues);
+
+	return { routes, defaultBucket, kv };
+}
+
+/** `{ binding, key, cacheTtl? }` — a JSON document read from KV (routes, JWKS) */
+function validateKVSource(value: unknown, env: Env, path: string, issues: string[]): RoutingKVConfig | JwksKVConfig | undefined {
+	if (!isObject(value, path, issues)) return undefined;
+	checkKeys(value, ['binding', 'key', 'cacheTtl'], path, issues);
+	const binding = readString(value, 'binding', path, issues, true);
+	const key = readString(value, 'key', path, issues, true);
+	const cacheTtl = readNumber(value, 'cacheTtl', path, issues, 0);
+	if (binding !== undefined && !isKVNamespace(env[binding])) {
+		issues.push(`${path}.binding: KV binding "${binding}" not found`);
+	}
+	if (binding === undefined || key === undefined) return undefined;
+	return { binding, key, cacheTtl };
+}
+
+const ROUTE_KEYS = [
+	'host', 'pathPrefix', 'pathPattern', 'keyTemplate', 'bucket', 'buckets', 'promoteOnFallback',
+	'bucketName', 'stripPrefix', 'cache', 'site', 'redirects', 'auth', 'hotlink', 'access', 'cors', 'uploads', 'listing', 's3Api',
+	'meta',
+];
+
+function validateRoute(value: unknown, env: Env, path: string, issues: string[]): BucketRoute {
+	if (!isObject(value, path, issues)) return value as BucketRoute;
+	checkKeys(value, ROUTE_KEYS, path, issues);
+
+	readString(value, 'host', path, issues, true);
+	readString(value, 'bucketName', path, issues);
+	readString(value, 'keyTemplate', path, issues);
+	readBoolean(value, 'stripPrefix', path, issues);
+	readBoolean(value, 'meta', path, issues);
+
+	const pathPrefix = readString(value, 'pathPrefix', path, issues);
+	const pathPattern = readString(value, 'pathPattern', path, issues);
+	if (pathPrefix === undefined && pathPattern === undefined) {
+		issues.push(`${path} must have a pathPrefix or a pathPattern`);
+	}
+	if (pathPrefix !== undefined && !pathPrefix.startsWith('/')) {
+		issues.push(`${path}.pathPrefix must start with "/" (got "${pathPrefix}")`);
+	}
+	if (pathPattern !== undefined) {
+		if (!pathPattern.startsWith('/')) {
+			issues.push(`${path}.pathPattern must start with "/" (got "${pathPattern}")`);
+		} else {
+			try {
+				assertValidPathPattern(pathPattern);
+			} catch (err) {
+				issues.push(`${path}.pathPattern: ${(err as Error).message}`);
+			}
+		}
+	}
+
+	readBoolean(value, 'promoteOnFallback', path, issues);
+	if (value.buckets !== undefined) {
+		if (value.bucket !== undefined) issues.push(`${path}: set either bucket or buckets, not both`);
+		const buckets = readStringArray(value, 'buckets', path, issues);
+		if (buckets && !buckets.length) issues.push(`${path}.buckets must not be empty`);
+		buckets?.forEach((name, i) => checkBinding(name, env, `${path}.buckets[${i}]`, issues));
+	} else {
+		const bucket = readString(value, 'bucket', path, issues, true);
+		if (bucket !== undefined) checkBinding(bucket, env, `${path}.bucket`, issues);
+	}
+
+	if (value.cache !== undefined) validateCacheOverride(value.cache, `${path}.cache`, issues);
+	if (value.site !== undefined) validateSite(value.site, `${path}.site`, issues);
+	if (value.redirects !== undefined) validateRedirects(value.redirects, `${path}.redirects`, issues);
+	if (value.auth !== undefined) validateAuth(value.auth, env, `${path}.auth`, issues);
+	if (value.hotlink !== undefined) validateHotlink(value.hotlink, `${path}.hotlink`, issues);
+	if (value.access !== undefined) validateAccess(value.access, `${path}.access`, issues);
+	if (value.cors !== undefined) validateCors(value.cors, `${path}.cors`, issues);
+	if (value.uploads !== undefined) validateUploads(value.uploads, env, `${path}.uploads`, issues);
+	if (value.listing !== undefined) {
+		validateListing(value.listing, `${path}.listing`, issues);
+		// Site routes serve index documents for directories instead
+		if (value.site !== undefined) issues.push(`${path}: set either site or listing, not both`);
+	}
+	if (value.s3Api !== undefined) {
+		validateS3Api(value.s3Api, `${path}.s3Api`, issues);
+		// S3 routes are anonymous and read-only, and map every key as-is. They
+		// answer before hotlink checks run, and S3 clients don't follow redirects
+		for (const key of ['auth', 'uploads', 'site', 'listing', 'hotlink', 'redirects']) {
+			if (value[key] !== undefined) issues.push(`${path}: ${key} cannot be combined with s3Api`);
+		}
+	}
+
+	return value as unknown as BucketRoute;
+}
+
+function validateListing(value: unknown, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	checkKeys(value, ['maxAge', 'pageSize'], path, issues);
+	readNumber(value, 'maxAge', path, issues, 0);
+	const pageSize = readNumber(value, 'pageSize', path, issues, 1);
+	if (pageSize !== undefined && pageSize > 1000) issues.push(`${path}.pageSize must be at most 1000 (got ${pageSize})`);
+}
+
+function validateS3Api(value: unknown, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	checkKeys(value, ['bucket'], path, issues);
+	readString(value, 'bucket', path, issues, true);
+}
+
+function validateSite(value: unknown, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	checkKeys(value, ['indexDocument', 'notFoundDocument', 'spaFallback'], path, issues);
+	for (const key of ['indexDocument', 'notFoundDocument', 'spaFallback']) {
+		const doc = readString(value, key, path, issues);
+		if (doc !== undefined && (!doc || doc.startsWith('/'))) {
+			issues.push(`${path}.${key} must be a non-empty R2 key without a leading "/"`);
+		}
+	}
+	if (value.notFoundDocument !== undefined && value.spaFallback !== undefined) {
+		issues.push(`${path}: set either notFoundDocument or spaFallback, not both`);
+	}
+}
+
+function validateRedirects(value: unknown, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	checkKeys(value, ['rules', 'file', 'fileTtl'], path, issues);
+	readString(value, 'file', path, issues);
+	readNumber(value, 'fileTtl', path, issues, 0);
+	if (value.rules === undefined) return;
+	if (!Array.isArray(value.rules)) {
+		issues.push(`${path}.rules must be an array`);
+		return;
+	}
+	value.rules.forEach((rule, i) => {
+		const rulePath = `${path}.rules[${i}]`;
+		if (!isObject(rule, rulePath, issues)) return;
+		checkKeys(rule, ['from', 'to', 'status'], rulePath, issues);
+		const from = readString(rule, 'from', rulePath, issues, true);
+		readString(rule, 'to', rulePath, issues, true);
+		if (rule.status !== undefined && ![301, 302, 307, 308].includes(rule.status as number)) {
+			issues.push(`${rulePath}.status must be one of 301, 302, 307, 308 (got ${JSON.stringify(rule.status)})`);
+		}
+		if (from === undefined) return;
+		if (!from.startsWith('/')) {
+			issues.push(`${rulePath}.from must start with "/" (got "${from}")`);
+			return;
+		}
+		try {
+			assertValidPathPattern(from);
+		} catch (err) {
+			issues.push(`${rulePath}.from: ${(err as Error).message}`);
+		}
+	});
+}
+
+export const DEFAULT_SIGNING_SECRET_BINDING = 'URL_SIGNING_SECRET';
+export const DEFAULT_JWKS_BINDING = 'JWKS';
+export const DEFAULT_UPLOAD_TOKEN_BINDING = 'UPLOAD_TOKEN';
+
+function validateHotlink(value: unknown, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	checkKeys(value, ['allowedReferers', 'allowEmpty', 'action', 'redirectUrl', 'substituteKey'], path, issues);
+	if (value.allowedReferers === undefined) issues.push(`${path}.allowedReferers is required`);
+	readStringArray(value, 'allowedReferers', path, issues);
+	readBoolean(value, 'allowEmpty', path, issues);
+	const redirectUrl = readString(value, 'redirectUrl', path, issues);
+	const substituteKey = readString(value, 'substituteKey', path, issues);
+
+	switch (value.action ?? 'forbid') {
+		case 'forbid':
+			break;
+		case 'redirect':
+			if (redirectUrl === undefined) issues.push(`${path}.redirectUrl is required for action "redirect"`);
+			else if (!/^https?:\/\//.test(redirectUrl)) {
+				issues.push(`${path}.redirectUrl must be an absolute http(s) URL (got "${redirectUrl}")`);
+			}
+			break;
+		case 'substitute':
+			if (substituteKey === undefined) issues.push(`${path}.substituteKey is required for action "substitute"`);
+			else if (!substituteKey || substituteKey.startsWith('/')) {
+				issues.push(`${path}.substituteKey must be a non-empty R2 key without a leading "/"`);
+			}
+			break;
+		default:
+			issues.push(`${path}.action must be one of "forbid", "redirect", "substitute" (got ${JSON.stringify(value.action)})`);
+	}
+}
+
+const CONTINENTS = ['AF', 'AN', 'AS', 'EU', 'NA', 'OC', 'SA'];
+const ACCESS_RULE_KEYS = ['action', 'keyPrefix', 'countries', 'continents', 'asns', 'ips', 'status'];
+
+function validateAccess(value: unknown, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	checkKeys(value, ['rules', 'defaultAction', 'status', 'errorDocument'], path, issues);
+	if (value.defaultAction !== undefined && value.defaultAction !== 'allow' && value.defaultAction !== 'deny') {
+		issues.push(`${path}.defaultAction must be "allow" or "deny" (got ${JSON.stringify(value.defaultAction)})`);
+	}
+	checkDenyStatus(value.status, `${path}.status`, issues);
+	const errorDocument = readString(value, 'errorDocument', path, issues);
+	if (errorDocument !== undefined && (!errorDocument || errorDocument.startsWith('/'))) {
+		issues.push(`${path}.errorDocument must be a non-empty R2 key without a leading "/"`);
+	}
+
+	if (!Array.isArray(value.rules)) {
+		issues.push(`${path}.rules must be an array`);
+		return;
+	}
+	value.rules.forEach((rule, i) => {
+		const rulePath = `${path}.rules[${i}]`;
+		if (!isObject(rule, rulePath, issues)) return;
+		checkKeys(rule, ACCESS_RULE_KEYS, rulePath, issues);
+		if (rule.action !== 'allow' && rule.action !== 'deny') {
+			issues.push(`${rulePath}.action must be "allow" or "deny" (got ${JSON.stringify(rule.action)})`);
+		}
+		readString(rule, 'keyPrefix', rulePath, issues);
+		checkDenyStatus(rule.status, `${rulePath}.status`, issues);
+
+		for (const country of readStringArray(rule, 'countries', rulePath, issues) ?? []) {
+			if (!/^[A-Z]{2}$/.test(country)) issues.push(`${rulePath}.countries: "${country}" is not an uppercase ISO 3166-1 alpha-2 code`);
+		}
+		for (const continent of readStringArray(rule, 'continents', rulePath, issues) ?? []) {
+			if (!CONTINENTS.includes(continent)) {
+				issues.push(`${rulePath}.continents: "${continent}" is not one of ${CONTINENTS.join(', ')}`);
+			}
+		}
+		if (rule.asns !== undefined && (!Array.isArray(rule.asns) || rule.asns.some((asn) => !Number.isInteger(asn) || asn < 0))) {
+			issues.push(`${rulePath}.asns must be an array of AS numbers`);
+		}
+		for (const cidr of readStringArray(rule, 'ips', rulePath, issues) ?? []) {
+			if (!parseCidr(cidr)) issues.push(`${rulePath}.ips: "${cidr}" is not an IP address or CIDR`);
+		}
+	});
+}
+
+function checkDenyStatus(value: unknown, path: string, issues: string[]): void {
+	if (value !== undefined && value !== 403 && value !== 451) {
+		issues.push(`${path} must be 403 or 451 (got ${JSON.stringify(value)})`);
+	}
+}
+
+const CORS_KEYS = ['allowedOrigins', 'allowedMethods', 'allowedHeaders', 'exposedHeaders', 'maxAge', 'allowCredentials'];
+
+function validateCors(value: unknown, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	checkKeys(value, CORS_KEYS, path, issues);
+	if (value.allowedOrigins === undefined) issues.push(`${path}.allowedOrigins is required`);
+	for (const origin of readStringArray(value, 'allowedOrigins', path, issues) ?? []) {
+		if (origin !== '*' && !/^https?:\/\/[^/?#]+$/.test(origin)) {
+			issues.push(`${path}.allowedOrigins: "${origin}" must be "*" or a scheme + host like "https://*.example.com"`);
+		}
+	}
+	for (const method of readStringArray(value, 'allowedMethods', path, issues) ?? []) {
+		if (!/^[A-Z]+$/.test(method)) issues.push(`${path}.allowedMethods: "${method}" must be an uppercase HTTP method`);
+	}
+	readStringArray(value, 'allowedHeaders', path, issues);
+	readStringArray(value, 'exposedHeaders', path, issues);
+	readNumber(value, 'maxAge', path, issues, 0);
+	readBoolean(value, 'allowCredentials', path, issues);
+}
+
+const UPLOAD_KEYS = [
+	'tokenBinding', 'allowSignedUrls', 'secretBinding', 'maxSize', 'allowedContentTypes', 'allowedObjectTypes', 'formKeyTemplate', 'tus',
+];
+const OBJECT_TYPES = ['image', 'video', 'audio', 'font', 'document', 'static', 'archive', 'binary'];
+const FORM_KEY_PLACEHOLDERS = ['prefix', 'date', 'uuid', 'filename'];
+
+function validateUploads(value: unknown, env: Env, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	checkKeys(value, UPLOAD_KEYS, path, issues);
+	const tokenBinding = readString(value, 'tokenBinding', path, issues);
+	const allowSignedUrls = readBoolean(value, 'allowSignedUrls', path, issues) ?? false;
+	const secretBinding = readString(value, 'secretBinding', path, issues);
+	readNumber(value, 'maxSize', path, issues, 1);
+	for (const type of readStringArray(value, 'allowedContentTypes', path, issues) ?? []) {
+		if (!/^[\w.+-]+\/(\*|[\w.+-]+)$/.test(type)) issues.push(`${path}.allowedContentTypes: "${type}" is not a MIME type or "type/*"`);
+	}
+	for (const type of readStringArray(value, 'allowedObjectTypes', path, issues) ?? []) {
+		if (!OBJECT_TYPES.includes(type)) issues.push(`${path}.allowedObjectTypes: "${type}" must be one of ${OBJECT_TYPES.join(', ')}`);
+	}
+	const template = readString(value, 'formKeyTemplate', path, issues);
+	for (const [, name] of template?.matchAll(/\{([^}]*)\}/g) ?? []) {
+		if (!FORM_KEY_PLACEHOLDERS.includes(name)) issues.push(`${path}.formKeyTemplate: unknown placeholder "{${name}}"`);
+	}
+	if (value.tus !== undefined) validateTus(value.tus, env, `${path}.tus`, issues);
+
+	// The bearer token is optional only when signed URLs are the way in
+	if (tokenBinding !== undefined || !allowSignedUrls) {
+		checkSecret(tokenBinding ?? DEFAULT_UPLOAD_TOKEN_BINDING, env, `${path}.tokenBinding`, issues);
+	}
+	if (allowSignedUrls) {
+		checkSecret(secretBinding ?? DEFAULT_SIGNING_SECRET_BINDING, env, `${path}.secretBinding`, issues);
+	} else if (secretBinding !== undefined) {
+		issues.push(`${path}.secretBinding is only used with allowSignedUrls`);
+	}
+}
+
+function validateTus(value: unknown, env: Env, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	checkKeys(value, ['binding', 'expiresIn'], path, issues);
+	const binding = readString(value, 'binding', path, issues, true);
+	readNumber(value, 'expiresIn', path, issues, 60);
+	if (binding !== undefined && !isKVNamespace(env[binding])) {
+		issues.push(`${path}.binding: KV binding "${binding}" not found`);
+	}
+}
+
+function validateAuth(value: unknown, env: Env, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	switch (value.type) {
+		case 'signed-url': {
+			checkKeys(value, ['type', 'secretBinding'], path, issues);
+			const binding = readString(value, 'secretBinding', path, issues) ?? DEFAULT_SIGNING_SECRET_BINDING;
+			checkSecret(binding, env, `${path}.secretBinding`, issues);
+			break;
+		}
+		case 'jwt':
+			validateJwtAuth(value, env, path, issues);
+			break;
+		default:
+			issues.push(`${path}.type must be "signed-url" or "jwt" (got ${JSON.stringify(value.type)})`);
+	}
+}
+
+const JWT_AUTH_KEYS = ['type', 'jwksBinding', 'jwksKv', 'algorithms', 'audience', 'issuer', 'prefixClaim', 'clockTolerance'];
+
+function validateJwtAuth(value: Record<string, unknown>, env: Env, path: string, issues: string[]): void {
+	checkKeys(value, JWT_AUTH_KEYS, path, issues);
+	const jwksBinding = readString(value, 'jwksBinding', path, issues, value.jwksBinding !== undefined);
+	if (value.jwksKv !== undefined) {
+		if (jwksBinding !== undefined) issues.push(`${path}: set either jwksBinding or jwksKv, not both`);
+		validateKVSource(value.jwksKv, env, `${path}.jwksKv`, issues);
+	} else {
+		// Env JWKS is checked now; a KV JWKS can only be checked per request
+		const name = jwksBinding ?? DEFAULT_JWKS_BINDING;
+		if (env[name] === undefined) issues.push(`${path}.jwksBinding: JWKS "${name}" not found`);
+		else if (!parseJwks(env[name])) issues.push(`${path}.jwksBinding: "${name}" is not a JWKS document ({"keys": [...]})`);
+	}
+
+	const algorithms = readStringArray(value, 'algorithms', path, issues);
+	for (const alg of algorithms ?? []) {
+		if (!(JWT_ALGORITHMS as readonly string[]).includes(alg)) {
+			issues.push(`${path}.algorithms: unsupported algorithm "${alg}" (use ${JWT_ALGORITHMS.join(', ')})`);
+		}
+	}
+	if (algorithms?.length === 0) issues.push(`${path}.algorithms must not be empty`);
+
+	for (const key of ['audience', 'issuer']) {
+		const claim = value[key];
+		const valid = typeof claim === 'string' || (Array.isArray(claim) && claim.every((v) => typeof v === 'string'));
+		if (claim !== undefined && !valid) {
+			issues.push(`${path}.${key} must be a string or an array of strings`);
+		}
+	}
+	readString(value, 'prefixClaim', path, issues);
+	readNumber(value, 'clockTolerance', path, issues, 0);
+}
+
+const CACHE_KEYS = [
+	'defaultMaxAge', 'defaultStaleWhileRevalidate', 'cacheEnabled',
+	'bypassParamEnabled', 'bypassParamName', 'cacheTags', 'objectTypeConfig', 'cacheKey',
+];
+
+function validateCache(value: unknown, issues: string[]): CacheConfig {
+	const path = 'CACHE';
+	if (value === undefined) return DEFAULT_CACHE;
+	if (!isObject(value, path, issues)) return DEFAULT_CACHE;
+	checkKeys(value, CACHE_KEYS, path, issues);
+
+	return {
+		defaultMaxAge: readNumber(value, 'defaultMaxAge', path, issues, 0) ?? DEFAULT_CACHE.defaultMaxAge,
+		defaultStaleWhileRevalidate:
+			readNumber(value, 'defaultStaleWhileRevalidate', path, issues, 0) ?? DEFAULT_CACHE.defaultStaleWhileRevalidate,
+		cacheEnabled: readBoolean(value, 'cacheEnabled', path, issues) ?? DEFAULT_CACHE.cacheEnabled,
+		bypassParamEnabled: readBoolean(value, 'bypassParamEnabled', path, issues) ?? DEFAULT_CACHE.bypassParamEnabled,
+		bypassParamName: readString(value, 'bypassParamName', path, issues) ?? DEFAULT_CACHE.bypassParamName,
+		cacheTags: { ...DEFAULT_CACHE.cacheTags, ...validateCacheTags(value.cacheTags, `${path}.cacheTags`, issues) },
+		objectTypeConfig: validateObjectTypeConfig(value.objectTypeConfig, `${path}.objectTypeConfig`, issues) ?? {},
+		cacheKey: validateCacheKey(value.cacheKey, `${path}.cacheKey`, issues),
+	};
+}
+
+/** Same shape as CACHE but every field optional and no defaults applied */
+function validateCacheOverride(value: unknown, path: string, issues: string[]): void {
+	if (!isObject(value, path, issues)) return;
+	checkKeys(value, CACHE_KEYS, path, issues);
+	readNumber(value, 'defaultMaxAge', path, issues, 0);
+	readNumber(value, 'defaultStaleWhileRevalidate', path, issues, 0);
+	readBoolean(value, 'cacheEnabled', path, issues);
+	readBoolean(value, 'bypassParamEnabled', path, issues);
+	readString(value, 'bypassParamName', path, issues);
+	validateCacheTags(value.cacheTags, `${path}.cacheTags`, issues);
+	validateObjectTypeConfig(value.objectTypeConfig, `${path}.objectTypeConfig`, issues);
+	validateCacheKey(value.cacheKey, `${path}.cacheKey`, issues);
+}
+
+function validateCacheKey(value: unknown, path: string, issues: string[]): CacheKeyConfig | undefined {
+	if (value === undefined) return undefined;
+	if (!isObject(value, path, issues)) return undefined;
+	checkKeys(value, ['dropParams', 'allowParams', 'sortParams', 'lowercaseHost', 'ignoreScheme'], path, issues);
+	for (const key of ['dropParams', 'allowParams']) {
+		if (readStringArray(value, key, path, issues)?.includes('')) {
+			issues.push(`${path}.${key} must not contain empty parameter names`);
+		}
+	}
+	readBoolean(value, 'sortParams', path, issues);
+	readBoolean(value, 'lowercaseHost', path, issues);
+	readBoolean(value, 'ignoreScheme', path, issues);
+	return value as CacheKeyConfig;
+}
+
+function validateCacheTags(value: unknown, path: string, issues: string[]): Partial<CacheTagConfig> | undefined {
+	if (value === undefined) return undefined;
+	if (!isObject(value, path, issues)) return undefined;
+	checkKeys(value, ['enabled', 'prefix', 'defaultTags'], path, issues);
+	const result: Partial<CacheTagConfig> = {};
+	const enabled = readBoolean(value, 'enabled', path, issues);
+	const prefix = readString(value, 'prefix', path, issues);
+	const defaultTags = readStringArray(value, 'defaultTags', path, issues);
+	if (enabled !== undefined) result.enabled = enabled;
+	if (prefix !== undefined) result.prefix = prefix;
+	if (defaultTags !== undefined) result.defaultTags = defaultTags;
+	return result;
+}
+
+function validateObjectTypeConfig(value: unknown, path: string, issues: string[]): Record<string, ObjectTypeCacheConfig> | undefined {
+	if (value === undefined) return undefined;
+	if (!isObject(value, path, issues)) return undefined;
+	for (const [type, entry] of Object.entries(value)) {
+		const entryPath = `${path}.${type}`;
+		if (!isObject(entry, entryPath, issues)) continue;
+		checkKeys(entry, ['maxAge', 'tags'], entryPath, issues);
+		readNumber(entry, 'maxAge', entryPath, issues, 0);
+		readStringArray(entry, 'tags', entryPath, issues);
+	}
+	return value as Record<string, ObjectTypeCacheConfig>;
+}
+
+function validateStorage(value: unknown, issues: string[]): StorageConfig {
+	const path = 'STORAGE';
+	if (value === undefined) return DEFAULT_STORAGE;
+	if (!isObject(value, path, issues)) return DEFAULT_STORAGE;
+	checkKeys(value, ['maxRetries', 'retryDelay', 'exponentialBackoff'], path, issues);
+
+	return {
+		// maxRetries is the total number of attempts — 0 would never call R2
+		maxRetries: readNumber(value, 'maxRetries', path, issues, 1) ?? DEFAULT_STORAGE.maxRetries,
+		retryDelay: readNumber(value, 'retryDelay', path, issues, 0) ?? DEFAULT_STORAGE.retryDelay,
+		exponentialBackoff: readBoolean(value, 'exponentialBackoff', path, issues) ?? DEFAULT_STORAGE.exponentialBackoff,
+	};
+}
+
+function validateS3(value: unknown, issues: string[]): S3Config | undefined {
+	const path = 'S3';
+	if (value === undefined) return undefined;
+	if (!isObject(value, path, issues)) return undefined;
+	checkKeys(value, ['endpoint'], path, issues);
+
+	const endpoint = readString(value, 'endpoint', path, issues, true);
+	if (endpoint === undefined) return undefined;
+	if (!/^https?:\/\//.test(endpoint)) {
+		issues.push(`${path}.endpoint must be an http(s) URL (got "${endpoint}")`);
+	}
+	return { endpoint: endpoint.replace(/\/+$/, '') };
+}
+
+// ── Field readers ────────────────────────────────────────────────────────────
+//
+// Each reader returns the value if it has the right type, or undefined after
+// recording an issue. Missing optional fields return undefined silently.
+
+function isObject(value: unknown, path: string, issues: string[]): value is Record<string, unknown> {
+	if (typeof value === 'object' && value !== null && !Array.isArray(value)) return true;
+	issues.push(`${path} must be an object`);
+	return false;
+}
+
+function checkKeys(obj: Record<string, unknown>, allowed: string[], path: string, issues: string[]): void {
+	for (const key of Object.keys(obj)) {
+		if (!allowed.includes(key)) issues.push(`${path}: unknown key "${key}"`);
+	}
+}
+
+function checkBinding(name: string, env: Env, path: string, issues: string[]): string {
+	if (!isR2Bucket(env[name])) issues.push(`${path}: R2 binding "${name}" not found`);
+	return name;
+}
+
+function checkSecret(name: string, env: Env, path: string, issues: string[]): void {
+	if (typeof env[name] !== 'string' || !env[name]) issues.push(`${path}: secret "${name}" not found`);
+}
+
+function readString(obj: Record<string, unknown>, key: string, path: string, issues: string[], required = false): string | undefined {
+	const value = obj[key];
+	if (value === undefined) {
+		if (required) issues.push(`${path}.${key} is required`);
+		return undefined;
+	}
+	if (typeof value !== 'string' || (required && !value)) {
+		issues.push(`${path}.${key} must be a ${required ? 'non-empty ' : ''}string`);
+		return undefined;
+	}
+	return value;
+}
+
+function readNumber(obj: Record<string, unknown>, key: string, path: string, issues: string[], min: number): number | undefined {
+	const value = obj[key];
+	if (value === undefined) return undefined;
+	if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+		issues.push(`${path}.${key} must be an integer >= ${min} (got ${JSON.stringify(value)})`);
+		return undefined;
+	}
+	return value;
+}
+
+function readBoolean(obj: Record<string, unknown>, key: string, path: string, issues: string[]): boolean | undefined {
+	const value = obj[key];
+	if (value === undefined) return undefined;
+	if (typeof value !== 'boolean') {
+		issues.push(`${path}.${key} must be a boolean`);
+		return undefined;
+	}
+	return value;
+}
+
+function readStringArray(obj: Record<string, unknown>, key: string, path: string, issues: string[]): string[] | undefined {
+	const value = obj[key];
+	if (value === undefined) return undefined;
+	if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+		issues.push(`${path}.${key} must be an array of strings`);
+		return undefined;
+	}
+	return value;
+}
@@ -0,0 +1,40 @@
+const encoder = new TextEncoder();
+
+/**
+ * Constant-time string comparison for secrets (tokens, signatures).
+ * Length differences return early — only the length can leak, not content.
+ */
+export function timingSafeEqualStrings(a: string, b: string): boolean {
+	const aBytes = encoder.encode(a);
+	const bBytes = encoder.encode(b);
+	if (aBytes.byteLength !== bBytes.byteLength) return false;
+	// timingSafeEqual is a Workers extension, missing from the DOM SubtleCrypto type
+	const subtle = crypto.subtle as unknown as { timingSafeEqual(a: ArrayBufferView, b: ArrayBufferView): boolean };
+	return subtle.timingSafeEqual(aBytes, bBytes);
+}
+
+/** Extract the token from an `Authorization: Bearer <token>` header */
+export function getBearerToken(request: Request): string | null {
+	const header = request.headers.get('Authorization');
+	const match = header?.match(/^Bearer\s+(.+)$/i);
+	return match ? match[1].trim() : null;
+}
+
+// ── base64url (RFC 4648 §5, unpadded) ─────────────────────────────────────────
+
+export function toBase64Url(bytes: Uint8Array): string {
+	let binary = '';
+	for (const byte of bytes) binary += String.fromCharCode(byte);
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Decode base64url; null if the input isn't valid base64url */
+export function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+	if (!/^[A-Za-z0-9_-]*$/.test(value)) return null;
+	try {
+		const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+		return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,16 @@
+/**
+ * Cursors for paged operations that walk several lists in turn — the buckets
+ * of a chain, the prefixes and tags of a purge: "{list index}:{list cursor}".
+ * The list cursor is empty when the next call starts a list from the top.
+ */
+
+export function formatListCursor(index: number, cursor?: string): string {
+	return `${index}:${cursor ?? ''}`;
+}
+
+/** A cursor without a list index continues the first list */
+export function parseListCursor(cursor: string | undefined): { index: number; cursor?: string } {
+	const match = cursor ? /^(\d+):(.*)$/s.exec(cursor) : null;
+	if (!match) return { index: 0, cursor };
+	return { index: Number(match[1]), cursor: match[2] || undefined };
+}
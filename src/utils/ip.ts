@@ -0,0 +1,122 @@
+/**
+ * IP address and CIDR matching (IPv4 and IPv6).
+ *
+ * Addresses are parsed to bigints so both families share one comparison.
+ * IPv4-mapped IPv6 addresses (::ffff:203.0.113.7) are treated as IPv4, so an
+ * IPv4 range also matches clients that arrive over a dual-stack socket.
+ */
+
+interface ParsedIp {
+	version: 4 | 6;
+	value: bigint;
+}
+
+interface ParsedCidr extends ParsedIp {
+	prefixLength: number;
+}
+
+// Parsed CIDRs are cached per isolate (rule lists are small and static)
+const cidrCache = new Map<string, ParsedCidr | null>();
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/** Parse an IPv4 or IPv6 address; null if invalid */
+export function parseIp(address: string): ParsedIp | null {
+	if (address.includes(':')) {
+		const value = parseIPv6(address);
+		if (value === null) return null;
+		// ::ffff:0:0/96 — IPv4-mapped
+		if (value >> 32n === 0xffffn) return { version: 4, value: value & 0xffffffffn };
+		return { version: 6, value };
+	}
+	const value = parseIPv4(address);
+	return value === null ? null : { version: 4, value };
+}
+
+/** Parse "addr/len" or a bare address (a /32 or /128); null if invalid */
+export function parseCidr(cidr: string): ParsedCidr | null {
+	if (cidrCache.has(cidr)) return cidrCache.get(cidr)!;
+
+	const [address, length, ...rest] = cidr.split('/');
+	const ip = parseIp(address);
+	let parsed: ParsedCidr | null = null;
+	if (ip && !rest.length) {
+		// An IPv4-mapped prefix keeps its length relative to the IPv6 address
+		const bits = address.includes(':') ? 128 : 32;
+		const prefixLength = length === undefined ? bits : /^\d{1,3}$/.test(length) ? Number(length) : NaN;
+		if (prefixLength >= 0 && prefixLength <= bits) {
+			const ownBits = ip.version === 4 ? 32 : 128;
+			parsed = { ...ip, prefixLength: Math.max(0, prefixLength - (bits - ownBits)) };
+		}
+	}
+
+	cidrCache.set(cidr, parsed);
+	return parsed;
+}
+
+/** True if `address` falls inside any of the CIDRs. Invalid input never matches. */
+export function ipMatchesAny(address: string, cidrs: string[]): boolean {
+	const ip = parseIp(address);
+	if (!ip) return false;
+	const bits = ip.version === 4 ? 32 : 128;
+
+	return cidrs.some((cidr) => {
+		const range = parseCidr(cidr);
+		if (!range || range.version !== ip.version) return false;
+		const shift = BigInt(bits - range.prefixLength);
+		return ip.value >> shift === range.value >> shift;
+	});
+}
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+function parseIPv4(address: string): bigint | null {
+	const parts = address.split('.');
+	if (parts.length !== 4) return null;
+	let value = 0n;
+	for (const part of parts) {
+		if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+		value = (value << 8n) | BigInt(part);
+	}
+	return value;
+}
+
+function parseIPv6(address: string): bigint | null {
+	// Zone IDs (fe80::1%eth0) never appear in CF-Connecting-IP; reject them
+	if (address.includes('%')) return null;
+
+	const halves = address.split('::');
+	if (halves.length > 2) return null;
+
+	const toGroups = (part: string): number[] | null => {
+		if (!part) return [];
+		const groups: number[] = [];
+		const pieces = part.split(':');
+		for (let i = 0; i < pieces.length; i++) {
+			const piece = pieces[i];
+			// Embedded IPv4 in the last position (::ffff:1.2.3.4)
+			if (i === pieces.length - 1 && piece.includes('.')) {
+				const v4 = parseIPv4(piece);
+				if (v4 === null) return null;
+				groups.push(Number(v4 >> 16n), Number(v4 & 0xffffn));
+				continue;
+			}
+			if (!/^[0-9a-f]{1,4}$/i.test(piece)) return null;
+			groups.push(parseInt(piece, 16));
+		}
+		return groups;
+	};
+
+	const head = toGroups(halves[0]);
+	const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+	if (!head || !tail) return null;
+
+	const missing = 8 - head.length - tail.length;
+	if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+	let value = 0n;
+	for (const group of [...head, ...new Array<number>(missing).fill(0), ...tail]) {
+		value = (value << 16n) | BigInt(group);
+	}
+	return value;
+}
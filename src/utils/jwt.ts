@@ -0,0 +1,193 @@
+/**
+ * Minimal JWT (JWS compact serialization) verification on WebCrypto.
+ *
+ * Supports RS256, ES256 and HS256 with keys from a JWKS. The key type must
+ * match the token's `alg` (an HS256 token is never checked against an RSA
+ * public key), and `alg: "none"` is always rejected.
+ */
+
+import { fromBase64Url } from './crypto';
+
+export type JwtAlgorithm = 'RS256' | 'ES256' | 'HS256';
+
+export const JWT_ALGORITHMS: readonly JwtAlgorithm[] = ['RS256', 'ES256', 'HS256'];
+
+export interface JwtPayload {
+	iss?: string;
+	sub?: string;
+	aud?: string | string[];
+	exp?: number;
+	nbf?: number;
+	iat?: number;
+	[claim: string]: unknown;
+}
+
+export interface JwtVerifyOptions {
+	/** Allowed signing algorithms */
+	algorithms: readonly JwtAlgorithm[];
+	/** Token `aud` must contain one of these */
+	audience?: string | string[];
+	/** Token `iss` must be one of these */
+	issuer?: string | string[];
+	/** Seconds of clock skew tolerated for exp/nbf. Default 60 */
+	clockTolerance?: number;
+	/** Current time in ms (tests) */
+	now?: number;
+}
+
+export type JwtVerifyResult = { payload: JwtPayload } | { error: string };
+
+interface JwtHeader {
+	alg?: string;
+	kid?: string;
+	typ?: string;
+}
+
+// ── Algorithm parameters ─────────────────────────────────────────────────────
+
+interface AlgorithmParams {
+	/** JWK key type the algorithm requires */
+	kty: string;
+	import: RsaHashedImportParams | EcKeyImportParams | HmacImportParams;
+	verify: AlgorithmIdentifier | EcdsaParams;
+}
+
+const ALGORITHM_PARAMS: Record<JwtAlgorithm, AlgorithmParams> = {
+	RS256: {
+		kty: 'RSA',
+		import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+		verify: { name: 'RSASSA-PKCS1-v1_5' },
+	},
+	ES256: {
+		kty: 'EC',
+		import: { name: 'ECDSA', namedCurve: 'P-256' },
+		// JWS ES256 signatures are raw r||s, which is what WebCrypto expects
+		verify: { name: 'ECDSA', hash: 'SHA-256' },
+	},
+	HS256: {
+		kty: 'oct',
+		import: { name: 'HMAC', hash: 'SHA-256' },
+		verify: { name: 'HMAC' },
+	},
+};
+
+// Imported keys are cached by algorithm + serialized JWK
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+function importJwk(jwk: JsonWebKey, alg: JwtAlgorithm): Promise<CryptoKey> {
+	const cacheKey = `${alg}:${JSON.stringify(jwk)}`;
+	let key = keyCache.get(cacheKey);
+	if (!key) {
+		// Drop key_ops/use/alg hints — we decide what the key is used for
+		const { key_ops: _ops, use: _use, alg: _alg, ...material } = jwk as JsonWebKey & { use?: string };
+		key = crypto.subtle.importKey('jwk', material, ALGORITHM_PARAMS[alg].import, false, ['verify']);
+		key.catch(() => keyCache.delete(cacheKey));
+		keyCache.set(cacheKey, key);
+	}
+	return key;
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Verify a compact JWT against a JWKS and check its `exp`, `nbf`, `aud` and
+ * `iss` claims. `exp` is required. Returns the payload or a short error
+ * (for logs and `WWW-Authenticate`, never anything secret).
+ */
+export async function verifyJwt(token: string, keys: JsonWebKey[], options: JwtVerifyOptions): Promise<JwtVerifyResult> {
+	const parts = token.split('.');
+	if (parts.length !== 3) return { error: 'malformed token' };
+	const [headerPart, payloadPart, signaturePart] = parts;
+
+	const header = decodeJson<JwtHeader>(headerPart);
+	const payload = decodeJson<JwtPayload>(payloadPart);
+	const signature = fromBase64Url(signaturePart);
+	if (!header || !payload || !signature) return { error: 'malformed token' };
+
+	const alg = header.alg as JwtAlgorithm;
+	if (!options.algorithms.includes(alg)) return { error: `algorithm "${header.alg}" not allowed` };
+
+	const candidates = keys.filter((k) => {
+		const jwk = k as JsonWebKey & { kid?: string };
+		if (jwk.kty !== ALGORITHM_PARAMS[alg].kty) return false;
+		if (jwk.alg && jwk.alg !== alg) return false;
+		return header.kid === undefined || jwk.kid === header.kid;
+	});
+	if (!candidates.length) return { error: 'no matching key' };
+
+	const signedData = new TextEncoder().encode(`${headerPart}.${payloadPart}`);
+	let verified = false;
+	for (const jwk of candidates) {
+		try {
+			const key = await importJwk(jwk, alg);
+			if (await crypto.subtle.verify(ALGORITHM_PARAMS[alg].verify, key, signature, signedData)) {
+				verified = true;
+				break;
+			}
+		} catch (err) {
+			console.warn(`JWT key import/verify failed (kid=${(jwk as { kid?: string }).kid ?? 'none'}):`, err);
+		}
+	}
+	if (!verified) return { error: 'bad signature' };
+
+	return checkClaims(payload, options);
+}
+
+/**
+ * Parse a JWKS document — a JSON string or an already-parsed object (JSON
+ * vars arrive parsed). Returns null unless it has a `keys` array of objects.
+ */
+export function parseJwks(value: unknown): JsonWebKey[] | null {
+	let jwks = value;
+	if (typeof jwks === 'string') {
+		try {
+			jwks = JSON.parse(jwks);
+		} catch {
+			return null;
+		}
+	}
+	const keys = (jwks as { keys?: unknown } | null)?.keys;
+	if (!Array.isArray(keys) || keys.some((k) => typeof k !== 'object' || k === null)) return null;
+	return keys as JsonWebKey[];
+}
+
+// ── Claims ───────────────────────────────────────────────────────────────────
+
+function checkClaims(payload: JwtPayload, options: JwtVerifyOptions): JwtVerifyResult {
+	const now = (options.now ?? Date.now()) / 1000;
+	const tolerance = options.clockTolerance ?? 60;
+
+	if (typeof payload.exp !== 'number') return { error: 'missing exp' };
+	if (payload.exp + tolerance < now) return { error: 'token expired' };
+	if (typeof payload.nbf === 'number' && payload.nbf - tolerance > now) return { error: 'token not yet valid' };
+
+	if (options.issuer !== undefined) {
+		const issuers = toArray(options.issuer);
+		if (typeof payload.iss !== 'string' || !issuers.includes(payload.iss)) return { error: 'issuer mismatch' };
+	}
+
+	if (options.audience !== undefined) {
+		const expected = toArray(options.audience);
+		const actual = payload.aud === undefined ? [] : toArray(payload.aud);
+		if (!actual.some((aud) => expected.includes(aud))) return { error: 'audience mismatch' };
+	}
+
+	return { payload };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function decodeJson<T>(part: string): T | null {
+	const bytes = fromBase64Url(part);
+	if (!bytes) return null;
+	try {
+		const value = JSON.parse(new TextDecoder().decode(bytes));
+		return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as T) : null;
+	} catch {
+		return null;
+	}
+}
+
+function toArray(value: string | string[]): string[] {
+	return Array.isArray(value) ? value : [value];
+}
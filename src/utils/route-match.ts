@@ -0,0 +1,113 @@
+// ── Host matching ─────────────────────────────────────────────────────────────
+
+/**
+ * Match a hostname against a pattern that supports leading wildcard:
+ *   "*.erfi.dev"  matches  "cdn.erfi.dev", "videos.erfi.dev"
+ *   "cdn.erfianugrah.com"  matches exactly
+ */
+export function matchHost(pattern: string, hostname: string): boolean {
+	if (pattern === '*') return true;
+	if (pattern.startsWith('*.')) {
+		const suffix = pattern.slice(1); // ".erfi.dev"
+		return hostname.endsWith(suffix) && hostname.length > suffix.length;
+	}
+	return pattern === hostname;
+}
+
+// ── Path patterns ─────────────────────────────────────────────────────────────
+//
+// Patterns are matched segment by segment:
+//   "/u/:tenant/*"   ":tenant" captures one non-empty segment, "*" captures
+//                    the remainder of the path (possibly empty) as "rest"
+//   "/assets/:file"  matches exactly two segments
+//
+// "*" is only allowed as the final segment.
+
+/** Name under which the trailing "*" capture is exposed to templates */
+export const REST_PARAM = 'rest';
+
+interface CompiledPattern {
+	regex: RegExp;
+	names: string[];
+}
+
+const compiledPatterns = new Map<string, CompiledPattern>();
+
+function compilePathPattern(pattern: string): CompiledPattern {
+	const cached = compiledPatterns.get(pattern);
+	if (cached) return cached;
+
+	const names: string[] = [];
+	const segments = pattern.replace(/^\//, '').split('/');
+	let source = '^';
+
+	segments.forEach((segment, i) => {
+		const isLast = i === segments.length - 1;
+		if (segment === '*') {
+			if (!isLast) throw new Error(`Invalid path pattern "${pattern}": "*" must be the last segment`);
+			names.push(REST_PARAM);
+			// Allow "/u/acme" as well as "/u/acme/..." to match "/u/:tenant/*"
+			source += '(?:/(.*))?';
+			return;
+		}
+		if (segment.startsWith(':')) {
+			const name = segment.slice(1);
+			if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+				throw new Error(`Invalid path pattern "${pattern}": bad parameter name "${name}"`);
+			}
+			names.push(name);
+			source += '/([^/]+)';
+			return;
+		}
+		source += '/' + segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	});
+
+	// A trailing slash on the request path is tolerated for exact patterns
+	if (!names.includes(REST_PARAM)) source += '/?';
+	source += '$';
+
+	const compiled = { regex: new RegExp(source), names };
+	compiledPatterns.set(pattern, compiled);
+	return compiled;
+}
+
+/**
+ * Match a URL pathname against a path pattern. Returns the named captures
+ * (plus "rest" for a trailing "*") or null if the pattern doesn't match.
+ */
+export function matchPathPattern(pattern: string, pathname: string): Record<string, string> | null {
+	const { regex, names } = compilePathPattern(pattern);
+	const match = regex.exec(pathname);
+	if (!match) return null;
+
+	const params: Record<string, string> = {};
+	names.forEach((name, i) => {
+		params[name] = match[i + 1] ?? '';
+	});
+	return params;
+}
+
+/** Throws if the pattern cannot be compiled (used for config validation). */
+export function assertValidPathPattern(pattern: string): void {
+	compilePathPattern(pattern);
+}
+
+// ── Key templates ─────────────────────────────────────────────────────────────
+
+/**
+ * Expand a key template such as "tenants/{tenant}/{rest}" with the captures
+ * from a path pattern. Unknown placeholders expand to an empty string.
+ * Repeated slashes are collapsed and the leading slash is removed so the
+ * result is always a valid R2 key.
+ */
+export function expandKeyTemplate(template: string, params: Record<string, string>): string {
+	return template
+		.replace(/\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => params[name] ?? '')
+		.replace(/\/{2,}/g, '/')
+		.replace(/^\//, '');
+}
+
+/** Percent-encode each segment of an R2 key for use in a URL path */
+export function encodeKeyPath(key: string): string {
+	return key.split('/').map(encodeURIComponent).join('/');
+}
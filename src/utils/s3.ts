@@ -0,0 +1,60 @@
+/**
+ * Helpers for talking to R2's S3-compatible API (for the few operations the
+ * binding doesn't offer, e.g. ListParts) and for speaking it (services/s3-api).
+ */
+
+import { AwsClient } from 'aws4fetch';
+import { encodeKeyPath } from './route-match';
+
+// Cache the AwsClient instance — credentials don't change per-request
+let cachedS3Client: AwsClient | null = null;
+let cachedS3ClientKey = '';
+
+export function getS3Client(accessKeyId: string, secretAccessKey: string): AwsClient {
+	const key = `${accessKeyId}:${secretAccessKey}`;
+	if (cachedS3Client && cachedS3ClientKey === key) return cachedS3Client;
+	cachedS3Client = new AwsClient({
+		accessKeyId,
+		secretAccessKey,
+		service: 's3',
+		region: 'auto',
+	});
+	cachedS3ClientKey = key;
+	return cachedS3Client;
+}
+
+/** `{endpoint}/{bucket}/{key}` with each key segment percent-encoded */
+export function s3ObjectUrl(endpoint: string, bucketName: string, key: string): string {
+	return `${endpoint}/${bucketName}/${encodeKeyPath(key)}`;
+}
+
+// ── XML ──────────────────────────────────────────────────────────────────────
+//
+// S3 responses are small and flat; a couple of regexes beat shipping an XML
+// parser (Workers have no DOMParser).
+
+/** Inner text of every `<tag>...</tag>` element, in document order */
+export function xmlElements(xml: string, tag: string): string[] {
+	const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+	return [...xml.matchAll(pattern)].map((m) => m[1]);
+}
+
+/** Decoded text of the first `<tag>` element, or undefined */
+export function xmlText(xml: string, tag: string): string | undefined {
+	const [first] = xmlElements(xml, tag);
+	return first === undefined ? undefined : xmlUnescape(first);
+}
+
+export function xmlEscape(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function xmlUnescape(value: string): string {
+	return value
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+		.replace(/&amp;/g, '&');
+}
@@ -0,0 +1,95 @@
+/**
+ * HMAC signed URLs.
+ *
+ * A signed URL carries two query parameters:
+ *   - `exp` — expiry as a Unix timestamp (seconds)
+ *   - `sig` — base64url HMAC-SHA256 over "{pathname}\n{exp}"
+ *
+ * Links for writes (PUT, DELETE, ...) sign "{METHOD}\n{pathname}\n{exp}"
+ * instead, so a read link can never be replayed as an upload and vice versa.
+ *
+ * Only the path and expiry are signed, so other query parameters (e.g.
+ * `?tags=`) don't invalidate the signature, and `exp`/`sig` are dropped from
+ * the cache key so every signed link to an object shares one cache entry.
+ *
+ * `generateSignedUrl()` only needs WebCrypto, so backends (Node 20+, Workers)
+ * can import this module to mint links.
+ */
+
+import { fromBase64Url, toBase64Url } from './crypto';
+
+export const SIGNED_URL_PARAMS = ['exp', 'sig'] as const;
+
+const encoder = new TextEncoder();
+
+// HMAC keys are cached per secret — importKey is comparatively expensive
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+function getHmacKey(secret: string): Promise<CryptoKey> {
+	let key = keyCache.get(secret);
+	if (!key) {
+		key = crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+		keyCache.set(secret, key);
+	}
+	return key;
+}
+
+function signingPayload(pathname: string, exp: number, method = 'GET'): Uint8Array<ArrayBuffer> {
+	// GET/HEAD links keep the original payload so existing links stay valid
+	const upper = method.toUpperCase();
+	const prefix = upper === 'GET' || upper === 'HEAD' ? '' : `${upper}\n`;
+	return encoder.encode(`${prefix}${pathname}\n${exp}`);
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Add `exp` and `sig` to a URL so it passes signed-url auth until `expiresAt`.
+ *
+ * @param url       - Full URL of the object
+ * @param secret    - The route's signing secret
+ * @param expiresAt - Expiry as a Date or Unix timestamp in seconds
+ * @param opts.method - HTTP method the link is for. Default GET (also valid for HEAD)
+ */
+export async function generateSignedUrl(
+	url: string | URL,
+	secret: string,
+	expiresAt: Date | number,
+	opts: { method?: string } = {},
+): Promise<string> {
+	const signed = new URL(url);
+	const exp = typeof expiresAt === 'number' ? Math.floor(expiresAt) : Math.floor(expiresAt.getTime() / 1000);
+
+	const key = await getHmacKey(secret);
+	const signature = await crypto.subtle.sign('HMAC', key, signingPayload(signed.pathname, exp, opts.method));
+
+	signed.searchParams.set('exp', String(exp));
+	signed.searchParams.set('sig', toBase64Url(new Uint8Array(signature)));
+	return signed.toString();
+}
+
+/**
+ * Check a request URL's `exp` and `sig`. Returns null if valid, otherwise a
+ * short reason (for logs — don't send it to the client).
+ */
+export async function verifySignedUrl(
+	url: URL,
+	secret: string,
+	opts: { method?: string; now?: number } = {},
+): Promise<string | null> {
+	const expParam = url.searchParams.get('exp');
+	const sigParam = url.searchParams.get('sig');
+	if (!expParam || !sigParam) return 'missing exp or sig';
+
+	const exp = Number(expParam);
+	if (!/^\d+$/.test(expParam) || !Number.isSafeInteger(exp)) return 'malformed exp';
+	if (exp * 1000 < (opts.now ?? Date.now())) return 'expired';
+
+	const signature = fromBase64Url(sigParam);
+	if (!signature) return 'malformed sig';
+
+	// crypto.subtle.verify compares in constant time
+	const key = await getHmacKey(secret);
+	const valid = await crypto.subtle.verify('HMAC', key, signature, signingPayload(url.pathname, exp, opts.method));
+	return valid ? null : 'bad signature';
+}
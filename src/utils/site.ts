@@ -0,0 +1,27 @@
+import type { SiteConfig } from '../types';
+
+export const DEFAULT_INDEX_DOCUMENT = 'index.html';
+
+/**
+ * Map a directory-style key ("", "docs/") to its index document. Other keys
+ * are returned unchanged.
+ */
+export function resolveIndexKey(key: string, site: SiteConfig): string {
+	if (key === '' || key.endsWith('/')) {
+		return key + (site.indexDocument ?? DEFAULT_INDEX_DOCUMENT);
+	}
+	return key;
+}
+
+/**
+ * Alternative keys to try when a site key misses:
+ *   "docs"  →  "docs/index.html", "docs.html"
+ *
+ * Keys whose last segment already has an extension ("app.js", "index.html")
+ * get no alternatives — a missing asset shouldn't cost two more R2 reads.
+ */
+export function siteFallbackKeys(key: string, site: SiteConfig): string[] {
+	const lastSegment = key.slice(key.lastIndexOf('/') + 1);
+	if (!lastSegment || lastSegment.includes('.')) return [];
+	return [`${key}/${site.indexDocument ?? DEFAULT_INDEX_DOCUMENT}`, `${key}.html`];
+}
@@ -0,0 +1,475 @@
+/// <reference types="@cloudflare/vitest-pool-workers" />
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+	env,
+	createExecutionContext,
+	waitOnExecutionContext,
+} from 'cloudflare:test';
+import app from '../src/index';
+import { copyObject } from '../src/services/copy';
+import { purgeCache } from '../src/services/purge';
+import type { PurgeReport, ZonePurgeTarget } from '../src/services/purge';
+import { kvCacheMatch, kvCachePut } from '../src/services/kv-cache';
+
+const ADMIN_TOKEN = 'test-admin-token';
+const ROUTES_KEY = '__test_routes';
+
+const adminEnv = {
+	...env,
+	ADMIN_TOKEN,
+	BUCKET_ROUTING: {
+		routes: [{ host: 'cdn.erfianugrah.com', pathPrefix: '/', bucket: 'R2', bucketName: 'images-weur' }],
+		defaultBucket: 'R2',
+		kv: { binding: 'CDN_CACHE', key: ROUTES_KEY, cacheTtl: 0 },
+	},
+};
+
+async function fetchApp(request: Request, testEnv: object = adminEnv): Promise<Response> {
+	const ctx = createExecutionContext();
+	const res = await app.fetch(request, testEnv, ctx);
+	const body = await res.arrayBuffer();
+	await waitOnExecutionContext(ctx);
+	return new Response(body, { status: res.status, headers: res.headers });
+}
+
+function adminRequest(path: string, init: RequestInit = {}): Request {
+	return new Request(`https://cdn.erfianugrah.com/_admin${path}`, {
+		...init,
+		headers: { Authorization: `Bearer ${ADMIN_TOKEN}`, 'Content-Type': 'application/json', ...init.headers },
+	});
+}
+
+beforeAll(async () => {
+	await (env.CDN_CACHE as KVNamespace).delete(ROUTES_KEY);
+	await (env.VIDEOS as R2Bucket).put('onboarded.txt', 'served from VIDEOS', {
+		httpMetadata: { contentType: 'text/plain' },
+	});
+});
+
+describe('Admin auth', () => {
+	it('rejects requests without the bearer token', async () => {
+		const res = await fetchApp(new Request('https://cdn.erfianugrah.com/_admin/routes'));
+		expect(res.status).toBe(401);
+	});
+
+	it('is disabled without ADMIN_TOKEN', async () => {
+		const res = await fetchApp(adminRequest('/routes'), { ...adminEnv, ADMIN_TOKEN: undefined });
+		expect(res.status).toBe(404);
+	});
+});
+
+describe('Routing table admin API', () => {
+	it('lists the env routes before anything is written to KV', async () => {
+		const res = await fetchApp(adminRequest('/routes'));
+		expect(res.status).toBe(200);
+		const body = await res.json<{ source: string; routes: unknown[] }>();
+		expect(body.source).toBe('env');
+		expect(body.routes).toHaveLength(1);
+	});
+
+	it('rejects invalid routes with the validation issues', async () => {
+		const res = await fetchApp(adminRequest('/routes', {
+			method: 'POST',
+			body: JSON.stringify({ host: 'new.example.com', pathPrefix: 'nope', bucket: 'MISSING' }),
+		}));
+		expect(res.status).toBe(400);
+		const body = await res.json<{ issues: string[] }>();
+		expect(body.issues).toContain('routes[1].pathPrefix must start with "/" (got "nope")');
+		expect(body.issues).toContain('routes[1].bucket: R2 binding "MISSING" not found');
+	});
+
+	it('adds a route that takes effect without a deploy', async () => {
+		const add = await fetchApp(adminRequest('/routes?index=0', {
+			method: 'POST',
+			body: JSON.stringify({ host: 'new.example.com', pathPrefix: '/', bucket: 'VIDEOS', bucketName: 'videos' }),
+		}));
+		expect(add.status).toBe(201);
+
+		const list = await fetchApp(adminRequest('/routes'));
+		const body = await list.json<{ source: string; routes: { host: string }[] }>();
+		expect(body.source).toBe('kv');
+		expect(body.routes.map((r) => r.host)).toEqual(['new.example.com', 'cdn.erfianugrah.com']);
+
+		const res = await fetchApp(new Request('https://new.example.com/onboarded.txt?no-cache'));
+		expect(res.status).toBe(200);
+		expect(await res.text()).toBe('served from VIDEOS');
+	});
+
+	it('reorders routes', async () => {
+		const res = await fetchApp(adminRequest('/routes/order', { method: 'PUT', body: JSON.stringify({ order: [1, 0] }) }));
+		expect(res.status).toBe(200);
+		const body = await res.json<{ routes: { host: string }[] }>();
+		expect(body.routes.map((r) => r.host)).toEqual(['cdn.erfianugrah.com', 'new.example.com']);
+
+		const bad = await fetchApp(adminRequest('/routes/order', { method: 'PUT', body: JSON.stringify({ order: [0, 0] }) }));
+		expect(bad.status).toBe(400);
+	});
+
+	it('deletes routes', async () => {
+		const res = await fetchApp(adminRequest('/routes/1', { method: 'DELETE' }));
+		expect(res.status).toBe(200);
+		const body = await res.json<{ routes: { host: string }[] }>();
+		expect(body.routes.map((r) => r.host)).toEqual(['cdn.erfianugrah.com']);
+
+		const missing = await fetchApp(adminRequest('/routes/5', { method: 'DELETE' }));
+		expect(missing.status).toBe(404);
+	});
+
+	it('refuses writes when the table is not stored in KV', async () => {
+		const envOnly = { ...adminEnv, BUCKET_ROUTING: { ...adminEnv.BUCKET_ROUTING, kv: undefined } };
+		const res = await fetchApp(adminRequest('/routes/0', { method: 'DELETE' }), envOnly);
+		expect(res.status).toBe(409);
+	});
+});
+
+describe('Object copy / move admin API', () => {
+	const copyEnv = {
+		...adminEnv,
+		BUCKET_ROUTING: {
+			routes: [
+				{ host: 'cdn.erfianugrah.com', pathPrefix: '/videos', stripPrefix: true, bucket: 'VIDEOS', bucketName: 'videos' },
+				{ host: 'cdn.erfianugrah.com', pathPrefix: '/', bucket: 'R2', bucketName: 'images-weur' },
+				{ host: 'chain.example.com', pathPrefix: '/', buckets: ['R2', 'VIDEOS'], bucketName: 'images-weur' },
+			],
+			defaultBucket: 'R2',
+		},
+	};
+	const r2 = env.R2 as R2Bucket;
+	const videos = env.VIDEOS as R2Bucket;
+
+	interface CopyResponse {
+		results: { source: string; destination: string; status: string; error?: string }[];
+		copied: number;
+		skipped: number;
+		failed: number;
+		cursor?: string;
+	}
+
+	const copy = (operation: 'copy' | 'move', body: object) =>
+		fetchApp(adminRequest(`/objects/${operation}`, { method: 'POST', body: JSON.stringify(body) }), copyEnv);
+
+	it('copies an object across routed buckets with its metadata', async () => {
+		await r2.put('copy/src.txt', 'copy me', {
+			httpMetadata: { contentType: 'text/plain', cacheControl: 'max-age=60' },
+			customMetadata: { owner: 'erfi' },
+		});
+		const res = await copy('copy', {
+			source: 'https://cdn.erfianugrah.com/copy/src.txt',
+			destination: 'https://cdn.erfianugrah.com/videos/copied/dst.txt',
+		});
+		expect(res.status).toBe(200);
+		expect(await res.json()).toMatchObject({
+			copied: 1,
+			failed: 0,
+			results: [{ source: 'copy/src.txt', destination: 'copied/dst.txt', status: 'copied' }],
+		});
+
+		const stored = await videos.get('copied/dst.txt');
+		expect(await stored?.text()).toBe('copy me');
+		expect(stored?.httpMetadata).toMatchObject({ contentType: 'text/plain', cacheControl: 'max-age=60' });
+		expect(stored?.customMetadata).toEqual({ owner: 'erfi' });
+		expect(await r2.head('copy/src.txt')).not.toBeNull();
+	});
+
+	it('moves an object and purges the cached source', async () => {
+		await r2.put('move/src.txt', 'move me', { httpMetadata: { contentType: 'text/plain' } });
+		const url = 'https://cdn.erfianugrah.com/move/src.txt';
+		await fetchApp(new Request(url), copyEnv);
+		expect((await fetchApp(new Request(url), copyEnv)).headers.get('CF-Cache-Status')).toBe('HIT');
+
+		const res = await copy('move', { source: url, destination: 'https://cdn.erfianugrah.com/move/dst.txt' });
+		expect(await res.json()).toMatchObject({ results: [{ status: 'moved' }] });
+
+		expect(await r2.head('move/src.txt')).toBeNull();
+		expect((await fetchApp(new Request(url), copyEnv)).status).toBe(404);
+		expect(await (await fetchApp(new Request('https://cdn.erfianugrah.com/move/dst.txt'), copyEnv)).text()).toBe('move me');
+	});
+
+	it('reads sources through the bucket chain and moves them out of every bucket', async () => {
+		await videos.put('legacy/old.txt', 'fallback only');
+		await r2.put('legacy/both.txt', 'primary');
+		await videos.put('legacy/both.txt', 'stale');
+
+		const moved = await copy('move', {
+			source: 'https://chain.example.com/legacy/old.txt',
+			destination: 'https://chain.example.com/legacy/new.txt',
+		});
+		expect(await moved.json()).toMatchObject({ results: [{ status: 'moved' }] });
+		expect(await (await r2.get('legacy/new.txt'))?.text()).toBe('fallback only');
+		expect(await videos.head('legacy/old.txt')).toBeNull();
+		expect((await fetchApp(new Request('https://chain.example.com/legacy/old.txt'), copyEnv)).status).toBe(404);
+
+		await copy('move', {
+			source: 'https://chain.example.com/legacy/both.txt',
+			destination: 'https://cdn.erfianugrah.com/videos/legacy/both.txt',
+		});
+		expect(await r2.head('legacy/both.txt')).toBeNull();
+		expect(await (await videos.get('legacy/both.txt'))?.text()).toBe('primary');
+	});
+
+	it('copies a prefix from every bucket of the chain', async () => {
+		await r2.put('chain-tree/a.txt', 'primary a');
+		await videos.put('chain-tree/a.txt', 'stale a');
+		await videos.put('chain-tree/b.txt', 'fallback b');
+
+		const request = { source: 'https://chain.example.com/chain-tree/', destination: 'https://cdn.erfianugrah.com/chain-copy/' };
+		const first = await (await copy('copy', request)).json<CopyResponse>();
+		expect(first.results.map((r) => r.source)).toEqual(['chain-tree/a.txt']);
+		expect(first.cursor).toBe('1:');
+
+		const second = await (await copy('copy', { ...request, cursor: first.cursor })).json<CopyResponse>();
+		expect(second.results.map((r) => r.source)).toEqual(['chain-tree/b.txt']);
+		expect(second.cursor).toBeUndefined();
+		expect(await (await r2.get('chain-copy/a.txt'))?.text()).toBe('primary a');
+		expect(await (await r2.get('chain-copy/b.txt'))?.text()).toBe('fallback b');
+	});
+
+	it('copies a prefix page by page', async () => {
+		for (const name of ['a.txt', 'b.txt', 'nested/c.txt']) await r2.put(`tree/${name}`, name);
+
+		const request = { source: 'https://cdn.erfianugrah.com/tree/', destination: 'https://cdn.erfianugrah.com/videos/tree-copy/', limit: 2 };
+		const first = await (await copy('copy', request)).json<CopyResponse>();
+		expect(first.copied).toBe(2);
+		expect(first.cursor).toBeDefined();
+
+		const second = await (await copy('copy', { ...request, cursor: first.cursor })).json<CopyResponse>();
+		expect(second.cursor).toBeUndefined();
+		expect([...first.results, ...second.results].map((r) => r.destination)).toEqual([
+			'tree-copy/a.txt',
+			'tree-copy/b.txt',
+			'tree-copy/nested/c.txt',
+		]);
+		expect(await (await videos.get('tree-copy/nested/c.txt'))?.text()).toBe('nested/c.txt');
+	});
+
+	it('skips existing objects without overwrite and reports missing sources', async () => {
+		await r2.put('keep/a.txt', 'new');
+		await videos.put('keep/a.txt', 'old');
+		const request = { source: 'https://cdn.erfianugrah.com/keep/a.txt', destination: 'https://cdn.erfianugrah.com/videos/keep/a.txt' };
+		expect(await (await copy('copy', { ...request, overwrite: false })).json()).toMatchObject({ skipped: 1 });
+		expect(await (await videos.get('keep/a.txt'))?.text()).toBe('old');
+
+		const missing = await copy('copy', { ...request, source: 'https://cdn.erfianugrah.com/keep/missing.txt' });
+		expect(missing.status).toBe(207);
+		expect(await missing.json()).toMatchObject({ failed: 1, results: [{ status: 'failed', error: 'Not Found' }] });
+	});
+
+	it('rejects invalid requests', async () => {
+		const object = 'https://cdn.erfianugrah.com/a.txt';
+		expect((await copy('copy', { source: object })).status).toBe(400);
+		expect((await copy('copy', { source: object, destination: 'https://cdn.erfianugrah.com/dir/' })).status).toBe(400);
+		const nested = { source: 'https://cdn.erfianugrah.com/a/', destination: 'https://cdn.erfianugrah.com/a/b/' };
+		expect((await copy('copy', nested)).status).toBe(400);
+		expect((await copy('copy', { source: object, destination: object, limit: 0 })).status).toBe(400);
+	});
+
+	it('copies large objects as multipart uploads', async () => {
+		const size = 11 * 1024 * 1024;
+		const data = new Uint8Array(size).map((_, i) => i % 253);
+		await r2.put('big/src.bin', data, { httpMetadata: { contentType: 'application/octet-stream' } });
+
+		const location = (bucket: R2Bucket, bucketName: string, key: string) => ({
+			bucket,
+			bucketName,
+			key,
+			url: `https://cdn.erfianugrah.com/${key}`,
+		});
+		const partSize = 5 * 1024 * 1024;
+		const result = await copyObject(location(r2, 'R2', 'big/src.bin'), location(videos, 'VIDEOS', 'big/dst.bin'), {
+			multipartThreshold: partSize,
+			partSize,
+		});
+		expect(result).toMatchObject({ status: 'copied', size });
+
+		const copied = new Uint8Array(await (await videos.get('big/dst.bin'))!.arrayBuffer());
+		expect(copied.length).toBe(size);
+		expect(copied.every((b, i) => b === i % 253)).toBe(true);
+	});
+});
+
+describe('Purge admin API', () => {
+	const kv = env.CDN_CACHE as KVNamespace;
+	const cache = (caches as unknown as { default: Cache }).default;
+	const base = 'https://cdn.erfianugrah.com/purge';
+
+	async function seed(url: string, tags: string[] = []): Promise<void> {
+		const headers = new Headers({ 'Content-Type': 'text/plain', 'Cache-Control': 'public, max-age=3600' });
+		if (tags.length) headers.set('Cache-Tag', tags.join(','));
+		await kvCachePut(kv, url, new TextEncoder().encode('cached').buffer, headers, 3600);
+		await cache.put(new Request(url), new Response('cached', { headers }));
+	}
+
+	const isCached = async (url: string) => ({
+		cache: (await cache.match(new Request(url))) !== undefined,
+		kv: (await kvCacheMatch(kv, url, new Request(url))) !== null,
+	});
+
+	const purge = (body: unknown) => fetchApp(adminRequest('/purge', { method: 'POST', body: JSON.stringify(body) }));
+
+	it('purges URLs from the Cache API and KV', async () => {
+		await seed(`${base}/url.txt`);
+
+		const res = await purge({ urls: [`${base}/url.txt`] });
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({ purged: [{ url: `${base}/url.txt`, cache: true, kv: true }], zone: 'skipped' });
+		expect(await isCached(`${base}/url.txt`)).toEqual({ cache: false, kv: false });
+	});
+
+	it('purges every KV-cached URL under a prefix', async () => {
+		await Promise.all([seed(`${base}/a/1.txt`), seed(`${base}/a/2.txt`), seed(`${base}/b/1.txt`)]);
+
+		const res = await purge({ prefixes: [`${base}/a/`] });
+		const { purged } = (await res.json()) as { purged: { url: string }[] };
+		expect(purged.map((p) => p.url).sort()).toEqual([`${base}/a/1.txt`, `${base}/a/2.txt`]);
+		expect(await isCached(`${base}/a/2.txt`)).toEqual({ cache: false, kv: false });
+		expect(await isCached(`${base}/b/1.txt`)).toEqual({ cache: true, kv: true });
+	});
+
+	it('purges KV-cached URLs by cache tag', async () => {
+		await Promise.all([seed(`${base}/tagged.txt`, ['purge-test', 'type-document']), seed(`${base}/untagged.txt`, ['type-document'])]);
+
+		const res = await purge({ tags: ['purge-test'] });
+		const { purged } = (await res.json()) as { purged: { url: string }[] };
+		expect(purged.map((p) => p.url)).toEqual([`${base}/tagged.txt`]);
+		expect((await isCached(`${base}/untagged.txt`)).kv).toBe(true);
+	});
+
+	it('pages broad prefix and tag purges', async () => {
+		await Promise.all([
+			seed(`${base}/paged/1.txt`, ['paged-tag']),
+			seed(`${base}/paged/2.txt`, ['paged-tag']),
+			seed(`${base}/paged/3.txt`, ['paged-tag']),
+			seed(`${base}/elsewhere.txt`, ['paged-tag']),
+		]);
+		const request = { prefixes: [`${base}/paged/`], tags: ['paged-tag'], limit: 2 };
+
+		const first = (await (await purge(request)).json()) as PurgeReport;
+		expect(first.purged).toHaveLength(2);
+		expect(first.cursor).toMatch(/^0:/);
+		expect(first.remaining).toEqual({ prefixes: [`${base}/paged/`], tags: ['paged-tag'] });
+
+		let report = first;
+		const purged = [...first.purged];
+		for (let calls = 1; report.cursor && calls < 5; calls++) {
+			report = (await (await purge({ ...request, cursor: report.cursor })).json()) as PurgeReport;
+			expect(report.purged.length).toBeLessThanOrEqual(2);
+			purged.push(...report.purged);
+		}
+		expect(report.cursor).toBeUndefined();
+		expect(new Set(purged.map((p) => p.url))).toEqual(
+			new Set([`${base}/paged/1.txt`, `${base}/paged/2.txt`, `${base}/paged/3.txt`, `${base}/elsewhere.txt`]),
+		);
+		expect(await isCached(`${base}/elsewhere.txt`)).toEqual({ cache: false, kv: false });
+	});
+
+	it('skips the zone purge when asked to', async () => {
+		const res = await fetchApp(adminRequest('/purge', { method: 'POST', body: JSON.stringify({ tags: ['nothing'], zone: false }) }), {
+			...adminEnv,
+			PURGE_ZONE_ID: 'zone',
+			PURGE_API_TOKEN: 'token',
+		});
+		expect(await res.json()).toEqual({ purged: [], zone: 'skipped' });
+	});
+
+	it('validates the request', async () => {
+		expect((await purge({})).status).toBe(400);
+		expect((await purge({ urls: ['/relative'] })).status).toBe(400);
+		expect((await purge({ prefixes: 'https://cdn.erfianugrah.com/' })).status).toBe(400);
+		expect((await purge({ tags: [''] })).status).toBe(400);
+		expect((await purge({ tags: ['a'], zone: 'yes' })).status).toBe(400);
+		expect((await purge({ tags: ['a'], limit: 0 })).status).toBe(400);
+		expect((await purge({ tags: ['a'], cursor: 1 })).status).toBe(400);
+	});
+
+	it('forwards batches to the zone purge client', async () => {
+		const calls: ZonePurgeTarget[] = [];
+		const zone = { purge: async (target: ZonePurgeTarget) => void calls.push(target) };
+		const urls = Array.from({ length: 31 }, (_, i) => `${base}/zone/${i}.txt`);
+
+		const report = await purgeCache({ urls, prefixes: [`${base}/zone/`], tags: ['zone-tag'] }, { zone });
+		expect(report.zone).toBe('purged');
+		expect(calls).toEqual([
+			{ files: urls.slice(0, 30) },
+			{ files: urls.slice(30) },
+			{ prefixes: ['cdn.erfianugrah.com/purge/zone/'] },
+			{ tags: ['zone-tag'] },
+		]);
+
+		// Continuing a scan doesn't forward the zone purge again
+		expect(await purgeCache({ tags: ['zone-tag'] }, { zone, cursor: '0:' })).toEqual({ purged: [], zone: 'skipped' });
+		expect(calls).toHaveLength(4);
+
+		const failing = { purge: async () => Promise.reject(new Error('rate limited')) };
+		expect(await purgeCache({ tags: ['zone-tag'] }, { zone: failing })).toEqual({ purged: [], zone: 'failed', error: 'rate limited' });
+	});
+});
+
+describe('KV cache index admin API', () => {
+	const kv = env.CDN_CACHE as KVNamespace;
+	const base = 'https://cdn.erfianugrah.com/idx';
+
+	async function seed(url: string, tags: string[]): Promise<void> {
+		const headers = new Headers({ 'Content-Type': 'video/mp4', 'Cache-Control': 'public, max-age=3600', 'Cache-Tag': tags.join(',') });
+		await kvCachePut(kv, url, new Uint8Array(16).buffer, headers, 3600);
+	}
+
+	beforeAll(async () => {
+		await Promise.all([
+			seed(`${base}/a/1.mp4`, ['idx-media', 'idx-a']),
+			seed(`${base}/a/2.mp4`, ['idx-media']),
+			seed(`${base}/b/1.mp4`, ['idx-media:other']),
+		]);
+	});
+
+	const listCache = async (query: string) => (await fetchApp(adminRequest(`/cache?${query}`))).json() as Promise<{ entries: string[]; cursor?: string }>;
+
+	it('lists cached URLs by tag and by prefix', async () => {
+		expect((await listCache('tag=idx-media')).entries.sort()).toEqual([`${base}/a/1.mp4`, `${base}/a/2.mp4`]);
+		expect((await listCache('tag=idx-a')).entries).toEqual([`${base}/a/1.mp4`]);
+		expect((await listCache(`prefix=${encodeURIComponent(`${base}/b/`)}`)).entries).toEqual([`${base}/b/1.mp4`]);
+
+		const page = await listCache(`prefix=${encodeURIComponent(`${base}/`)}&limit=2`);
+		expect(page.entries).toHaveLength(2);
+		expect(page.cursor).toBeTruthy();
+	});
+
+	it("normalizes prefixes by the route's cache key policy", async () => {
+		const policyEnv = {
+			...adminEnv,
+			BUCKET_ROUTING: {
+				routes: [
+					{
+						host: 'cdn.erfianugrah.com',
+						pathPrefix: '/',
+						bucket: 'R2',
+						bucketName: 'images-weur',
+						cache: { cacheKey: { ignoreScheme: true } },
+					},
+				],
+				defaultBucket: 'R2',
+			},
+		};
+		const res = await fetchApp(adminRequest(`/cache?prefix=${encodeURIComponent('http://cdn.erfianugrah.com/idx/b/')}`), policyEnv);
+		expect(((await res.json()) as { entries: string[] }).entries).toEqual([`${base}/b/1.mp4`]);
+	});
+
+	it('bulk-deletes entries with their body and index keys', async () => {
+		const res = await fetchApp(adminRequest('/cache?tag=idx-media', { method: 'DELETE' }));
+		expect(res.status).toBe(200);
+		const { purged } = (await res.json()) as { purged: { url: string; kv: boolean }[] };
+		expect(purged.map((p) => p.url).sort()).toEqual([`${base}/a/1.mp4`, `${base}/a/2.mp4`]);
+		expect(purged.every((p) => p.kv)).toBe(true);
+
+		expect(await kv.get(`${base}/a/1.mp4`)).toBeNull();
+		expect(await kv.get(`${base}/a/1.mp4_body`)).toBeNull();
+		expect((await kv.list({ prefix: '__idx:tag:idx-a:' })).keys).toEqual([]);
+		expect((await listCache(`prefix=${encodeURIComponent(`${base}/`)}`)).entries).toEqual([`${base}/b/1.mp4`]);
+	});
+
+	it('validates the query', async () => {
+		expect((await fetchApp(adminRequest('/cache'))).status).toBe(400);
+		expect((await fetchApp(adminRequest(`/cache?tag=a&prefix=${encodeURIComponent(base)}`))).status).toBe(400);
+		expect((await fetchApp(adminRequest('/cache?prefix=idx/'))).status).toBe(400);
+		expect((await fetchApp(adminRequest('/cache?tag=a&limit=0'))).status).toBe(400);
+	});
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { generateCacheTags, buildCacheControl, buildResponseHeaders } from '../src/utils/cache';
+import { generateCacheTags, buildCacheControl, buildResponseHeaders, mergeCacheConfig } from '../src/utils/cache';
+import { buildCacheKey } from '../src/utils/cache-key';
 import type { CacheConfig } from '../src/types';
 
 const baseCacheConfig: CacheConfig = {
@@ -148,3 +149,79 @@ describe('buildResponseHeaders', () => {
 		expect(headers.get('Content-Type')).toBe('image/jpeg');
 	});
 });
+
+describe('mergeCacheConfig', () => {
+	it('returns the base config when there is no override', () => {
+		expect(mergeCacheConfig(baseCacheConfig)).toBe(baseCacheConfig);
+	});
+
+	it('merges scalars, tag config fields and object type entries', () => {
+		const merged = mergeCacheConfig(baseCacheConfig, {
+			defaultMaxAge: 60,
+			cacheTags: { prefix: 'vid-' },
+			objectTypeConfig: { image: { maxAge: 300 }, video: { maxAge: 2592000, tags: ['media'] } },
+		});
+		expect(merged.defaultMaxAge).toBe(60);
+		expect(merged.defaultStaleWhileRevalidate).toBe(86400);
+		expect(merged.cacheTags).toEqual({ enabled: true, prefix: 'vid-', defaultTags: ['cdn', 'r2-objects'] });
+		// Entry-level merge keeps the global tags for image
+		expect(merged.objectTypeConfig.image).toEqual({ maxAge: 300, tags: ['images'] });
+		expect(merged.objectTypeConfig.video).toEqual({ maxAge: 2592000, tags: ['media'] });
+		expect(merged.objectTypeConfig.static).toEqual({ maxAge: 604800, tags: ['static'] });
+		// Base config is not mutated
+		expect(baseCacheConfig.objectTypeConfig.image.maxAge).toBe(86400);
+	});
+
+	it('replaces arrays instead of concatenating', () => {
+		const merged = mergeCacheConfig(baseCacheConfig, { cacheTags: { defaultTags: ['videos'] } });
+		expect(merged.cacheTags.defaultTags).toEqual(['videos']);
+	});
+
+	it('merges cache key policy fields', () => {
+		const base = { ...baseCacheConfig, cacheKey: { dropParams: ['utm_*'], sortParams: true } };
+		const merged = mergeCacheConfig(base, { cacheKey: { ignoreScheme: true } });
+		expect(merged.cacheKey).toEqual({ dropParams: ['utm_*'], sortParams: true, ignoreScheme: true });
+		expect(mergeCacheConfig(base, { defaultMaxAge: 60 }).cacheKey).toBe(base.cacheKey);
+	});
+
+	it('feeds the merged policy into buildCacheControl', () => {
+		const merged = mergeCacheConfig(baseCacheConfig, { objectTypeConfig: { image: { maxAge: 120 } } });
+		expect(buildCacheControl('image', merged)).toBe('public, max-age=120, stale-while-revalidate=86400');
+	});
+});
+
+describe('buildCacheKey', () => {
+	const url = 'http://CDN.example.com./a.jpg?w=100&utm_source=x&b=2&a=1&utm_medium=y';
+
+	it('keeps the full URL without a policy', () => {
+		expect(buildCacheKey(url)).toBe('http://cdn.example.com./a.jpg?w=100&utm_source=x&b=2&a=1&utm_medium=y');
+	});
+
+	it('drops parameters by name and prefix', () => {
+		expect(buildCacheKey(url, { dropParams: ['utm_*', 'b'] })).toBe('http://cdn.example.com./a.jpg?w=100&a=1');
+		expect(buildCacheKey('https://cdn.example.com/a.jpg?utm_source=x', { dropParams: ['utm_*'] })).toBe('https://cdn.example.com/a.jpg');
+	});
+
+	it('keeps only allowed parameters, minus dropped ones', () => {
+		expect(buildCacheKey(url, { allowParams: ['w', 'a', 'utm_*'], dropParams: ['utm_medium'] })).toBe(
+			'http://cdn.example.com./a.jpg?w=100&utm_source=x&a=1',
+		);
+		expect(buildCacheKey(url, { allowParams: [] })).toBe('http://cdn.example.com./a.jpg');
+	});
+
+	it('sorts parameters, keeping the order of repeated ones', () => {
+		expect(buildCacheKey('https://cdn.example.com/a.jpg?w=1&a=2&w=0', { sortParams: true })).toBe(
+			'https://cdn.example.com/a.jpg?a=2&w=1&w=0',
+		);
+	});
+
+	it('normalizes host and scheme', () => {
+		expect(buildCacheKey(url, { lowercaseHost: true, ignoreScheme: true, allowParams: [] })).toBe('https://cdn.example.com/a.jpg');
+	});
+
+	it('applies extra drop params on top of the policy', () => {
+		expect(buildCacheKey('https://cdn.example.com/a.jpg?exp=1&sig=x&w=1&utm_id=2', { dropParams: ['utm_*'] }, ['exp', 'sig'])).toBe(
+			'https://cdn.example.com/a.jpg?w=1',
+		);
+	});
+});
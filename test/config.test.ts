@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import { loadConfig, validateRoutes, ConfigError } from '../src/utils/config';
+import type { Env } from '../src/types';
+
+// Minimal stand-in for an R2 binding — the loader only checks the shape
+const fakeBucket = { get: () => null, head: () => null };
+
+function makeEnv(vars: Record<string, unknown>): Env {
+	return { R2: fakeBucket, VIDEOS: fakeBucket, ...vars } as unknown as Env;
+}
+
+function issuesFor(env: Env): string[] {
+	try {
+		loadConfig(env);
+	} catch (err) {
+		if (err instanceof ConfigError) return err.issues;
+		throw err;
+	}
+	return [];
+}
+
+describe('loadConfig', () => {
+	it('applies defaults when vars are missing', () => {
+		const config = loadConfig(makeEnv({}));
+		expect(config.routing).toEqual({ routes: [], defaultBucket: 'R2' });
+		expect(config.storage).toEqual({ maxRetries: 3, retryDelay: 1000, exponentialBackoff: true });
+		expect(config.cache.defaultMaxAge).toBe(86400);
+		expect(config.cache.bypassParamName).toBe('no-cache');
+		expect(config.cache.cacheTags).toEqual({ enabled: false, prefix: '', defaultTags: [] });
+		expect(config.cache.objectTypeConfig).toEqual({});
+		expect(config.s3).toBeUndefined();
+	});
+
+	it('fills in missing fields of a partial CACHE config', () => {
+		const config = loadConfig(makeEnv({ CACHE: { defaultMaxAge: 60, cacheTags: { enabled: true } } }));
+		expect(config.cache.defaultMaxAge).toBe(60);
+		expect(config.cache.cacheEnabled).toBe(true);
+		expect(config.cache.cacheTags).toEqual({ enabled: true, prefix: '', defaultTags: [] });
+		expect(config.cache.objectTypeConfig).toEqual({});
+	});
+
+	it('memoizes the result per env object', () => {
+		const env = makeEnv({});
+		expect(loadConfig(env)).toBe(loadConfig(env));
+	});
+
+	it('rejects maxRetries of 0', () => {
+		const issues = issuesFor(makeEnv({ STORAGE: { maxRetries: 0 } }));
+		expect(issues).toEqual(['STORAGE.maxRetries must be an integer >= 1 (got 0)']);
+	});
+
+	it('reports unknown keys and bad types', () => {
+		const issues = issuesFor(makeEnv({ CACHE: { defaultMaxAge: '1d', cacheEnabeld: true } }));
+		expect(issues).toContain('CACHE: unknown key "cacheEnabeld"');
+		expect(issues).toContain('CACHE.defaultMaxAge must be an integer >= 0 (got "1d")');
+	});
+
+	it('reports route problems and missing bindings together', () => {
+		const issues = issuesFor(
+			makeEnv({
+				BUCKET_ROUTING: {
+					routes: [
+						{ host: 'cdn.example.com', pathPrefix: 'images', bucket: 'R2', bucketName: 'images' },
+						{ host: 'videos.example.com', pathPrefix: '/', bucket: 'MISSING', bucketName: 'videos' },
+						{ host: 'x.example.com', bucket: 'R2' },
+					],
+					defaultBucket: 'ALSO_MISSING',
+				},
+			}),
+		);
+		expect(issues).toContain('BUCKET_ROUTING.defaultBucket: R2 binding "ALSO_MISSING" not found');
+		expect(issues).toContain('BUCKET_ROUTING.routes[0].pathPrefix must start with "/" (got "images")');
+		expect(issues).toContain('BUCKET_ROUTING.routes[1].bucket: R2 binding "MISSING" not found');
+		expect(issues).toContain('BUCKET_ROUTING.routes[2] must have a pathPrefix or a pathPattern');
+	});
+
+	it('validates per-route cache overrides', () => {
+		const issues = issuesFor(
+			makeEnv({
+				BUCKET_ROUTING: {
+					routes: [{ host: '*', pathPrefix: '/', bucket: 'R2', cache: { objectTypeConfig: { video: { maxAge: -1 } } } }],
+				},
+			}),
+		);
+		expect(issues).toEqual(['BUCKET_ROUTING.routes[0].cache.objectTypeConfig.video.maxAge must be an integer >= 0 (got -1)']);
+	});
+
+	it('validates cache key policies', () => {
+		expect(issuesFor(makeEnv({ CACHE: { cacheKey: { dropParams: ['utm_*'], sortParams: true, ignoreScheme: true } } }))).toEqual([]);
+
+		const issues = issuesFor(
+			makeEnv({
+				CACHE: { cacheKey: { dropParams: 'utm_*', lowercaseHosts: true } },
+				BUCKET_ROUTING: {
+					routes: [{ host: '*', pathPrefix: '/', bucket: 'R2', cache: { cacheKey: { allowParams: ['w', ''], sortParams: 'yes' } } }],
+				},
+			}),
+		);
+		expect(issues).toContain('CACHE.cacheKey: unknown key "lowercaseHosts"');
+		expect(issues).toContain('CACHE.cacheKey.dropParams must be an array of strings');
+		expect(issues).toContain('BUCKET_ROUTING.routes[0].cache.cacheKey.allowParams must not contain empty parameter names');
+		expect(issues).toContain('BUCKET_ROUTING.routes[0].cache.cacheKey.sortParams must be a boolean');
+	});
+});
+
+describe('validateRoutes', () => {
+	it('requires the signing secret for signed-url auth', () => {
+		const route = { host: '*', pathPrefix: '/', bucket: 'R2', auth: { type: 'signed-url' } };
+		expect(validateRoutes([route], makeEnv({})).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].auth.secretBinding: secret "URL_SIGNING_SECRET" not found',
+		]);
+		expect(validateRoutes([route], makeEnv({ URL_SIGNING_SECRET: 's3cret' })).issues).toEqual([]);
+	});
+
+	it('validates jwt auth and its JWKS', () => {
+		const route = (auth: Record<string, unknown>) => [{ host: '*', pathPrefix: '/', bucket: 'R2', auth: { type: 'jwt', ...auth } }];
+		expect(validateRoutes(route({}), makeEnv({})).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].auth.jwksBinding: JWKS "JWKS" not found',
+		]);
+		expect(validateRoutes(route({ jwksBinding: 'KEYS' }), makeEnv({ KEYS: '{"keys": "nope"}' })).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].auth.jwksBinding: "KEYS" is not a JWKS document ({"keys": [...]})',
+		]);
+		expect(validateRoutes(route({ algorithms: ['HS512'], audience: 42 }), makeEnv({ JWKS: { keys: [] } })).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].auth.algorithms: unsupported algorithm "HS512" (use RS256, ES256, HS256)',
+			'BUCKET_ROUTING.routes[0].auth.audience must be a string or an array of strings',
+		]);
+		expect(validateRoutes(route({ issuer: ['https://auth.example.com'] }), makeEnv({ JWKS: '{"keys": []}' })).issues).toEqual([]);
+	});
+
+	it('validates hotlink policies', () => {
+		const route = (hotlink: unknown) => [{ host: '*', pathPrefix: '/', bucket: 'R2', hotlink }];
+		const env = makeEnv({});
+		expect(validateRoutes(route({ allowedReferers: ['*.erfianugrah.com'] }), env).issues).toEqual([]);
+		expect(validateRoutes(route({ action: 'redirect', redirectUrl: '/nope' }), env).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].hotlink.allowedReferers is required',
+			'BUCKET_ROUTING.routes[0].hotlink.redirectUrl must be an absolute http(s) URL (got "/nope")',
+		]);
+		expect(validateRoutes(route({ allowedReferers: [], action: 'substitute' }), env).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].hotlink.substituteKey is required for action "substitute"',
+		]);
+	});
+
+	it('validates access rules', () => {
+		const route = (access: unknown) => [{ host: '*', pathPrefix: '/', bucket: 'R2', access }];
+		const env = makeEnv({});
+		const valid = { rules: [{ action: 'deny', countries: ['US'], ips: ['10.0.0.0/8'] }], status: 451 };
+		expect(validateRoutes(route(valid), env).issues).toEqual([]);
+		const invalid = { rules: [{ action: 'block', countries: ['us'], continents: ['XX'], asns: ['13335'], ips: ['10.0.0.0/40'] }] };
+		expect(validateRoutes(route(invalid), env).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].access.rules[0].action must be "allow" or "deny" (got "block")',
+			'BUCKET_ROUTING.routes[0].access.rules[0].countries: "us" is not an uppercase ISO 3166-1 alpha-2 code',
+			'BUCKET_ROUTING.routes[0].access.rules[0].continents: "XX" is not one of AF, AN, AS, EU, NA, OC, SA',
+			'BUCKET_ROUTING.routes[0].access.rules[0].asns must be an array of AS numbers',
+			'BUCKET_ROUTING.routes[0].access.rules[0].ips: "10.0.0.0/40" is not an IP address or CIDR',
+		]);
+		expect(validateRoutes(route({ rules: [], status: 404 }), env).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].access.status must be 403 or 451 (got 404)',
+		]);
+	});
+
+	it('validates cors config', () => {
+		const route = (cors: unknown) => [{ host: '*', pathPrefix: '/', bucket: 'R2', cors }];
+		const env = makeEnv({});
+		const allowedOrigins = ['*', 'https://*.erfianugrah.com', 'http://localhost:8787'];
+		expect(validateRoutes(route({ allowedOrigins }), env).issues).toEqual([]);
+		expect(validateRoutes(route({ allowedOrigins: ['erfianugrah.com/'], allowedMethods: ['get'] }), env).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].cors.allowedOrigins: "erfianugrah.com/" must be "*" or a scheme + host like "https://*.example.com"',
+			'BUCKET_ROUTING.routes[0].cors.allowedMethods: "get" must be an uppercase HTTP method',
+		]);
+	});
+
+	it('validates uploads and their credentials', () => {
+		const route = (uploads: unknown) => [{ host: '*', pathPrefix: '/', bucket: 'R2', uploads }];
+		expect(validateRoutes(route({}), makeEnv({})).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].uploads.tokenBinding: secret "UPLOAD_TOKEN" not found',
+		]);
+		expect(validateRoutes(route({ allowSignedUrls: true }), makeEnv({ URL_SIGNING_SECRET: 's' })).issues).toEqual([]);
+		expect(validateRoutes(route({ maxSize: 0, allowedContentTypes: ['images'] }), makeEnv({ UPLOAD_TOKEN: 't' })).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].uploads.maxSize must be an integer >= 1 (got 0)',
+			'BUCKET_ROUTING.routes[0].uploads.allowedContentTypes: "images" is not a MIME type or "type/*"',
+		]);
+		const form = { allowedObjectTypes: ['image', 'photo'], formKeyTemplate: '{prefix}{year}/{uuid}' };
+		expect(validateRoutes(route(form), makeEnv({ UPLOAD_TOKEN: 't' })).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].uploads.allowedObjectTypes: "photo" must be one of image, video, audio, font, document, static, archive, binary',
+			'BUCKET_ROUTING.routes[0].uploads.formKeyTemplate: unknown placeholder "{year}"',
+		]);
+		expect(validateRoutes(route({ tus: { binding: 'TUS_STATE', expiresIn: 30 } }), makeEnv({ UPLOAD_TOKEN: 't' })).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].uploads.tus.expiresIn must be an integer >= 60 (got 30)',
+			'BUCKET_ROUTING.routes[0].uploads.tus.binding: KV binding "TUS_STATE" not found',
+		]);
+	});
+
+	it('validates site config', () => {
+		const { issues } = validateRoutes(
+			[{ host: '*', pathPrefix: '/', bucket: 'R2', site: { notFoundDocument: '/404.html', spaFallback: 'index.html' } }],
+			makeEnv({}),
+		);
+		expect(issues).toEqual([
+			'BUCKET_ROUTING.routes[0].site.notFoundDocument must be a non-empty R2 key without a leading "/"',
+			'BUCKET_ROUTING.routes[0].site: set either notFoundDocument or spaFallback, not both',
+		]);
+	});
+
+	it('validates listing config', () => {
+		const env = makeEnv({});
+		expect(validateRoutes([{ host: '*', pathPrefix: '/', bucket: 'R2', listing: { maxAge: 0, pageSize: 50 } }], env).issues).toEqual([]);
+		expect(
+			validateRoutes([{ host: '*', pathPrefix: '/', bucket: 'R2', listing: { pageSize: 5000, sort: 'name' }, site: {} }], env).issues,
+		).toEqual([
+			'BUCKET_ROUTING.routes[0].listing: unknown key "sort"',
+			'BUCKET_ROUTING.routes[0].listing.pageSize must be at most 1000 (got 5000)',
+			'BUCKET_ROUTING.routes[0]: set either site or listing, not both',
+		]);
+	});
+
+	it('validates s3Api config', () => {
+		const env = makeEnv({});
+		expect(
+			validateRoutes([{ host: 's3.example.com', pathPrefix: '/media', bucket: 'R2', s3Api: { bucket: 'media' } }], env).issues,
+		).toEqual([]);
+		expect(
+			validateRoutes(
+				[{ host: '*', pathPrefix: '/', bucket: 'R2', s3Api: { bucket: '' }, listing: {}, uploads: {} }],
+				makeEnv({ UPLOAD_TOKEN: 't' }),
+			).issues,
+		).toEqual([
+			'BUCKET_ROUTING.routes[0].s3Api.bucket must be a non-empty string',
+			'BUCKET_ROUTING.routes[0]: uploads cannot be combined with s3Api',
+			'BUCKET_ROUTING.routes[0]: listing cannot be combined with s3Api',
+		]);
+		expect(
+			validateRoutes(
+				[{ host: '*', pathPrefix: '/', bucket: 'R2', s3Api: { bucket: 'media' }, hotlink: { allowedReferers: ['a.com'] }, redirects: {} }],
+				env,
+			).issues,
+		).toEqual([
+			'BUCKET_ROUTING.routes[0]: hotlink cannot be combined with s3Api',
+			'BUCKET_ROUTING.routes[0]: redirects cannot be combined with s3Api',
+		]);
+	});
+
+	it('validates bucket fallback chains', () => {
+		const env = makeEnv({});
+		expect(validateRoutes([{ host: '*', pathPrefix: '/', buckets: ['R2', 'VIDEOS'] }], env).issues).toEqual([]);
+		expect(validateRoutes([{ host: '*', pathPrefix: '/', buckets: ['R2', 'OLD'] }], env).issues).toEqual([
+			'BUCKET_ROUTING.routes[0].buckets[1]: R2 binding "OLD" not found',
+		]);
+		expect(validateRoutes([{ host: '*', pathPrefix: '/', bucket: 'R2', buckets: ['R2'] }], env).issues).toEqual([
+			'BUCKET_ROUTING.routes[0]: set either bucket or buckets, not both',
+		]);
+	});
+
+	it('rejects invalid path patterns', () => {
+		const { issues } = validateRoutes([{ host: '*', pathPattern: '/*/x', bucket: 'R2' }], makeEnv({}));
+		expect(issues[0]).toContain('"*" must be the last segment');
+	});
+});
@@ -6,20 +6,24 @@ import {
 	waitOnExecutionContext,
 } from 'cloudflare:test';
 import app from '../src/index';
+import { generateSignedUrl } from '../src/utils/signed-url';
+import { toBase64Url } from '../src/utils/crypto';
+import { kvCacheDelete, kvCacheMatch, kvCachePut } from '../src/services/kv-cache';
+import { sanitizeFilename } from '../src/services/form-upload';
 
 const TEST_KEY = 'test-image.jpg';
 const TEST_BODY = new Uint8Array(2048).fill(0xff);
 
-async function fetchApp(request: Request): Promise<Response> {
+async function fetchApp(request: Request, testEnv: Record<string, unknown> = env): Promise<Response> {
 	const ctx = createExecutionContext();
-	const res = await app.fetch(request, env, ctx);
+	const res = await app.fetch(request, testEnv, ctx);
 	// Read the response body first to drive any streaming pump loops,
 	// then wait for background tasks (waitUntil) to complete.
 	// Without this ordering, waitOnExecutionContext blocks on the pump
 	// which blocks on the client reading the stream — deadlock.
 	const body = await res.arrayBuffer();
 	await waitOnExecutionContext(ctx);
-	return new Response(body, {
+	return new Response([101, 204, 205, 304].includes(res.status) ? null : body, {
 		status: res.status,
 		headers: res.headers,
 	});
@@ -120,6 +124,75 @@ describe('Conditional requests', () => {
 	});
 });
 
+describe('Object metadata (?meta)', () => {
+	const metaEnv = {
+		...env,
+		BUCKET_ROUTING: {
+			routes: [
+				{ host: 'meta.example.com', pathPrefix: '/', bucket: 'R2', bucketName: 'images-weur', meta: true },
+				{ host: 'meta-chain.example.com', pathPattern: '/*', buckets: ['VIDEOS', 'R2'], bucketName: 'videos-weur', meta: true },
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	it('returns metadata and checksums without the body', async () => {
+		const bucket = env.R2 as R2Bucket;
+		const body = new TextEncoder().encode('metadata body');
+		const md5 = [...new Uint8Array(await crypto.subtle.digest('MD5', body))].map((b) => b.toString(16).padStart(2, '0')).join('');
+		await bucket.put('meta-test.txt', body, {
+			httpMetadata: { contentType: 'text/plain', cacheControl: 'max-age=60' },
+			customMetadata: { pipeline: 'ingest' },
+		});
+
+		const res = await fetchApp(new Request('https://meta.example.com/meta-test.txt?meta'), metaEnv);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Type')).toBe('application/json');
+		expect(res.headers.get('Cache-Control')).toBe('no-store');
+
+		const meta = (await res.json()) as Record<string, unknown>;
+		expect(meta).toMatchObject({
+			key: 'meta-test.txt',
+			size: body.byteLength,
+			httpMetadata: { contentType: 'text/plain', cacheControl: 'max-age=60' },
+			customMetadata: { pipeline: 'ingest' },
+			checksums: { md5 },
+			bucket: 'R2',
+			bucketName: 'images-weur',
+			fallback: false,
+			route: { host: 'meta.example.com', pathPrefix: '/' },
+		});
+		expect(meta.etag).toBe(`"${md5}"`);
+		expect(typeof meta.storageClass).toBe('string');
+		expect(Date.parse(meta.uploaded as string)).not.toBeNaN();
+
+		await bucket.delete('meta-test.txt');
+	});
+
+	it('names the fallback bucket that served the object', async () => {
+		const res = await fetchApp(new Request(`https://meta-chain.example.com/${TEST_KEY}?meta`), metaEnv);
+		expect(await res.json()).toMatchObject({
+			key: TEST_KEY,
+			bucket: 'R2',
+			bucketName: null,
+			fallback: true,
+			route: { host: 'meta-chain.example.com', pathPattern: '/*' },
+		});
+	});
+
+	it('serves the object on routes without meta', async () => {
+		const res = await fetchApp(new Request(`https://cdn.erfianugrah.com/${TEST_KEY}?meta`));
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Type')).toBe('image/jpeg');
+	});
+
+	it('returns a JSON 404 for missing objects', async () => {
+		const res = await fetchApp(new Request('https://meta.example.com/no-such-object.txt?meta'), metaEnv);
+		expect(res.status).toBe(404);
+		expect(await res.json()).toEqual({ error: 'Not Found', key: 'no-such-object.txt' });
+	});
+});
+
 describe('Cache bypass', () => {
 	it('returns no-store when bypass param is set', async () => {
 		const res = await fetchApp(new Request(`https://cdn.erfianugrah.com/${TEST_KEY}?no-cache`));
@@ -177,6 +250,85 @@ describe('Cache API integration', () => {
 	});
 });
 
+describe('KV stale-while-revalidate', () => {
+	const kv = env.CDN_CACHE as KVNamespace;
+	const bucket = env.R2 as R2Bucket;
+	const urlFor = (key: string) => `https://cdn.erfianugrah.com/${key}`;
+
+	/** A KV entry (max-age 60, swr 3600) that is `age` seconds old */
+	async function seed(key: string, body: string, etag: string, age: number): Promise<void> {
+		const headers = new Headers({
+			'Content-Type': 'text/plain',
+			ETag: etag,
+			'Cache-Control': 'public, max-age=60, stale-while-revalidate=3600',
+		});
+		await kvCachePut(kv, urlFor(key), new TextEncoder().encode(body).buffer, headers, 60);
+		const { value, metadata } = await kv.getWithMetadata<Record<string, unknown>>(urlFor(key));
+		await kv.put(urlFor(key), value!, { metadata: { ...metadata, createdAt: Date.now() - age * 1000 } });
+	}
+
+	it('serves a stale entry and refreshes it when R2 has the same ETag', async () => {
+		const object = (await bucket.put('swr/unchanged.txt', 'same'))!;
+		await seed('swr/unchanged.txt', 'same', object.httpEtag, 120);
+
+		const stale = await fetchApp(new Request(urlFor('swr/unchanged.txt')));
+		expect(stale.headers.get('X-KV-Cache-Status')).toBe('STALE');
+		expect(await stale.text()).toBe('same');
+
+		const { metadata } = await kv.getWithMetadata<{ createdAt: number; revalidated?: boolean }>(urlFor('swr/unchanged.txt'));
+		expect(metadata?.revalidated).toBe(true);
+		expect(Date.now() - metadata!.createdAt).toBeLessThan(30_000);
+
+		const res = await fetchApp(new Request(urlFor('swr/unchanged.txt')));
+		expect(res.headers.get('X-KV-Cache-Status')).toBe('REVALIDATED');
+		expect(await res.text()).toBe('same');
+	});
+
+	it('refetches the object when its ETag changed', async () => {
+		await bucket.put('swr/changed.txt', 'new');
+		await seed('swr/changed.txt', 'old', '"outdated"', 120);
+
+		const stale = await fetchApp(new Request(urlFor('swr/changed.txt')));
+		expect(stale.headers.get('X-KV-Cache-Status')).toBe('STALE');
+		expect(await stale.text()).toBe('old');
+
+		// Small objects are recached in the Cache API, which is checked first
+		expect(await kvCacheMatch(kv, urlFor('swr/changed.txt'), new Request(urlFor('swr/changed.txt')))).toBeNull();
+		const res = await fetchApp(new Request(urlFor('swr/changed.txt')));
+		expect(res.headers.get('CF-Cache-Status')).toBe('HIT');
+		expect(await res.text()).toBe('new');
+	});
+
+	it('misses once the stale-while-revalidate window has passed', async () => {
+		await bucket.put('swr/expired.txt', 'origin');
+		await seed('swr/expired.txt', 'cached', '"expired"', 60 + 3600 + 1);
+
+		const res = await fetchApp(new Request(urlFor('swr/expired.txt')));
+		expect(res.headers.get('X-KV-Cache-Status')).toBeNull();
+		expect(await res.text()).toBe('origin');
+	});
+
+	it('writes a changed chunked body under new chunk keys', async () => {
+		const url = urlFor('swr/chunked.bin');
+		const size = 20 * 1024 * 1024 + 1;
+		const chunkKeys = async () => (await kv.list({ prefix: `${url}_chunk_` })).keys.map((key) => key.name);
+
+		await kvCachePut(kv, url, new Uint8Array(size).fill(1).buffer, new Headers({ ETag: '"v1"' }), 3600);
+		const first = await chunkKeys();
+		expect(first).toHaveLength(2);
+
+		await kvCacheDelete(kv, url);
+		await kvCachePut(kv, url, new Uint8Array(size).fill(2).buffer, new Headers({ ETag: '"v2"' }), 3600);
+		const second = await chunkKeys();
+		expect(second).toHaveLength(2);
+		expect(second.some((key) => first.includes(key))).toBe(false);
+
+		const res = await kvCacheMatch(kv, url, new Request(url, { headers: { Range: 'bytes=0-0' } }));
+		expect(new Uint8Array(await res!.arrayBuffer())).toEqual(new Uint8Array([2]));
+		await kvCacheDelete(kv, url);
+	});
+});
+
 describe('Content-Type detection', () => {
 	it('uses R2 httpMetadata Content-Type when available', async () => {
 		const bucket = env.R2 as R2Bucket;
@@ -206,3 +358,1359 @@ describe('Security headers', () => {
 		await res.body?.cancel();
 	});
 });
+
+describe('Route patterns and key templates', () => {
+	const routingEnv = {
+		...env,
+		BUCKET_ROUTING: {
+			routes: [
+				{ host: 'cdn.erfianugrah.com', pathPattern: '/u/:tenant/*', keyTemplate: 'tenants/{tenant}/{rest}', bucket: 'R2', bucketName: 'images-weur' },
+				{ host: 'cdn.erfianugrah.com', pathPrefix: '/static', stripPrefix: true, bucket: 'R2', bucketName: 'images-weur' },
+				{ host: 'cdn.erfianugrah.com', pathPrefix: '/', bucket: 'R2', bucketName: 'images-weur' },
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	it('rewrites pattern captures into the R2 key', async () => {
+		const bucket = env.R2 as R2Bucket;
+		await bucket.put('tenants/acme/logo.png', new Uint8Array(32), {
+			httpMetadata: { contentType: 'image/png' },
+		});
+
+		const res = await fetchApp(new Request('https://cdn.erfianugrah.com/u/acme/logo.png?no-cache'), routingEnv);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Length')).toBe('32');
+
+		await bucket.delete('tenants/acme/logo.png');
+	});
+
+	it('strips the prefix for prefix routes', async () => {
+		const res = await fetchApp(new Request(`https://cdn.erfianugrah.com/static/${TEST_KEY}?no-cache`), routingEnv);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Length')).toBe('2048');
+	});
+});
+
+describe('Per-route cache overrides', () => {
+	it('applies the route cache policy to response headers', async () => {
+		const overrideEnv = {
+			...env,
+			BUCKET_ROUTING: {
+				routes: [
+					{
+						host: 'cdn.erfianugrah.com',
+						pathPrefix: '/',
+						bucket: 'R2',
+						bucketName: 'images-weur',
+						cache: { objectTypeConfig: { image: { maxAge: 120 } }, cacheTags: { prefix: 'img-' } },
+					},
+				],
+				defaultBucket: 'R2',
+			},
+		};
+		const res = await fetchApp(new Request(`https://cdn.erfianugrah.com/${TEST_KEY}?route-override`), overrideEnv);
+
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Cache-Control')).toContain('max-age=120');
+		expect(res.headers.get('Cache-Tag')).toContain('img-type-image');
+		expect(res.headers.get('Cache-Tag')).toContain('img-images');
+	});
+
+	it('normalizes the cache key with the route cache key policy', async () => {
+		const policyEnv = {
+			...env,
+			BUCKET_ROUTING: {
+				routes: [
+					{
+						host: 'cdn.erfianugrah.com',
+						pathPrefix: '/',
+						bucket: 'R2',
+						bucketName: 'images-weur',
+						cache: { cacheKey: { dropParams: ['utm_*', 'tags'], sortParams: true, ignoreScheme: true } },
+					},
+				],
+				defaultBucket: 'R2',
+			},
+		};
+		const fetchWith = (url: string) => fetchApp(new Request(url), policyEnv);
+
+		const first = await fetchWith(`http://cdn.erfianugrah.com/${TEST_KEY}?w=1&cache-key=1&utm_source=mail`);
+		expect(first.status).toBe(200);
+		expect(first.headers.get('CF-Cache-Status')).toBeNull();
+
+		const res = await fetchWith(`https://cdn.erfianugrah.com/${TEST_KEY}?cache-key=1&tags=x&w=1&utm_campaign=launch`);
+		expect(res.headers.get('CF-Cache-Status')).toBe('HIT');
+
+		const other = await fetchWith(`https://cdn.erfianugrah.com/${TEST_KEY}?cache-key=1&w=2`);
+		expect(other.headers.get('CF-Cache-Status')).toBeNull();
+	});
+});
+
+describe('Configuration errors', () => {
+	it('returns 500 with the config report', async () => {
+		const badEnv = { ...env, STORAGE: { maxRetries: 0, retryDelay: 1000, exponentialBackoff: true } };
+		const res = await fetchApp(new Request(`https://cdn.erfianugrah.com/${TEST_KEY}`), badEnv);
+		expect(res.status).toBe(500);
+		expect(await res.text()).toContain('STORAGE.maxRetries must be an integer >= 1');
+	});
+});
+
+describe('Bucket fallback chains', () => {
+	const chainEnv = {
+		...env,
+		BUCKET_ROUTING: {
+			routes: [
+				{ host: 'cdn.erfianugrah.com', pathPrefix: '/', buckets: ['R2', 'VIDEOS'], promoteOnFallback: true, bucketName: 'images-weur' },
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	it('serves from the primary bucket when the object exists there', async () => {
+		const res = await fetchApp(new Request(`https://cdn.erfianugrah.com/${TEST_KEY}?no-cache`), chainEnv);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('X-Fetch-Via')).toBe('r2-binding:R2');
+	});
+
+	it('falls back to the next bucket on 404 and promotes the object', async () => {
+		const key = 'migrating/old-only.png';
+		await (env.VIDEOS as R2Bucket).put(key, new Uint8Array(128).fill(0x11), {
+			httpMetadata: { contentType: 'image/png' },
+			customMetadata: { origin: 'old' },
+		});
+
+		const res = await fetchApp(new Request(`https://cdn.erfianugrah.com/${key}?no-cache`), chainEnv);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('X-Fetch-Via')).toBe('r2-binding:VIDEOS');
+		expect(res.headers.get('Content-Length')).toBe('128');
+
+		const promoted = await (env.R2 as R2Bucket).head(key);
+		expect(promoted?.size).toBe(128);
+		expect(promoted?.httpMetadata?.contentType).toBe('image/png');
+		expect(promoted?.customMetadata).toEqual({ origin: 'old' });
+
+		await (env.R2 as R2Bucket).delete(key);
+		await (env.VIDEOS as R2Bucket).delete(key);
+	});
+
+	it('never overwrites an object written to the primary during promotion', async () => {
+		const key = 'migrating/raced.txt';
+		const primary = env.R2 as R2Bucket;
+		await (env.VIDEOS as R2Bucket).put(key, 'old');
+
+		// An upload lands in the primary between the fallback read and the promotion's put
+		const racingPrimary = new Proxy(primary, {
+			get(target, prop) {
+				if (prop === 'put') {
+					return async (...args: Parameters<R2Bucket['put']>) => {
+						await target.put(key, 'new');
+						return target.put(...args);
+					};
+				}
+				const value = Reflect.get(target, prop);
+				return typeof value === 'function' ? value.bind(target) : value;
+			},
+		});
+		const res = await fetchApp(new Request(`https://cdn.erfianugrah.com/${key}?no-cache`), { ...chainEnv, R2: racingPrimary });
+		expect(await res.text()).toBe('old');
+		expect(await (await primary.get(key))?.text()).toBe('new');
+
+		await primary.delete(key);
+		await (env.VIDEOS as R2Bucket).delete(key);
+	});
+
+	it('returns 404 when no bucket in the chain has the object', async () => {
+		const res = await fetchApp(new Request('https://cdn.erfianugrah.com/nowhere.png?no-cache'), chainEnv);
+		expect(res.status).toBe(404);
+	});
+});
+
+describe('Static-site mode', () => {
+	const siteEnv = {
+		...env,
+		BUCKET_ROUTING: {
+			routes: [
+				{ host: 'docs.example.com', pathPrefix: '/', bucket: 'R2', bucketName: 'images-weur', keyTemplate: 'site/{rest}', site: { notFoundDocument: 'site/404.html' } },
+				{ host: 'app.example.com', pathPrefix: '/', bucket: 'R2', bucketName: 'images-weur', keyTemplate: 'site/{rest}', site: { spaFallback: 'site/index.html' } },
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	beforeAll(async () => {
+		const bucket = env.R2 as R2Bucket;
+		const html = { httpMetadata: { contentType: 'text/html' } };
+		await bucket.put('site/index.html', 'home', html);
+		await bucket.put('site/docs/index.html', 'docs index', html);
+		await bucket.put('site/about.html', 'about', html);
+		await bucket.put('site/404.html', 'custom not found', html);
+	});
+
+	it('serves the index document at the root', async () => {
+		const res = await fetchApp(new Request('https://docs.example.com/?no-cache'), siteEnv);
+		expect(res.status).toBe(200);
+		expect(await res.text()).toBe('home');
+	});
+
+	it('maps directory paths to their index document', async () => {
+		const res = await fetchApp(new Request('https://docs.example.com/docs/?no-cache'), siteEnv);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Type')).toBe('text/html');
+		expect(await res.text()).toBe('docs index');
+	});
+
+	it('tries key/index.html and key.html on misses', async () => {
+		const docs = await fetchApp(new Request('https://docs.example.com/docs?no-cache'), siteEnv);
+		expect(await docs.text()).toBe('docs index');
+		const about = await fetchApp(new Request('https://docs.example.com/about?no-cache'), siteEnv);
+		expect(about.status).toBe(200);
+		expect(await about.text()).toBe('about');
+	});
+
+	it('serves the custom 404 document with status 404', async () => {
+		const res = await fetchApp(new Request('https://docs.example.com/missing/page'), siteEnv);
+		expect(res.status).toBe(404);
+		expect(res.headers.get('Cache-Control')).toBe('no-store, max-age=0');
+		expect(await res.text()).toBe('custom not found');
+	});
+
+	it('serves the SPA fallback with status 200', async () => {
+		const res = await fetchApp(new Request('https://app.example.com/dashboard/settings?no-cache'), siteEnv);
+		expect(res.status).toBe(200);
+		expect(await res.text()).toBe('home');
+	});
+});
+
+describe('Directory listings', () => {
+	const SECRET = 'integration-listing-secret';
+	const listingEnv = {
+		...env,
+		URL_SIGNING_SECRET: SECRET,
+		BUCKET_ROUTING: {
+			routes: [
+				{
+					host: 'signed-files.example.com',
+					pathPattern: '/files/*',
+					keyTemplate: 'listing/{rest}',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					listing: { pageSize: 2 },
+					auth: { type: 'signed-url' },
+				},
+				{
+					host: 'files.example.com',
+					pathPattern: '/files/*',
+					keyTemplate: 'listing/{rest}',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					listing: { maxAge: 30, pageSize: 2 },
+					cache: { cacheKey: { dropParams: ['utm_*'] } },
+				},
+				{ host: 'nolist.example.com', pathPattern: '/files/*', keyTemplate: 'listing/{rest}', bucket: 'R2', bucketName: 'images-weur' },
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	interface Listing {
+		prefix: string;
+		directories: string[];
+		objects: { name: string; key: string; size: number; contentType: string; type: string }[];
+		cursor?: string;
+	}
+
+	beforeAll(async () => {
+		const bucket = env.R2 as R2Bucket;
+		await bucket.put('listing/a.png', new Uint8Array(16), { httpMetadata: { contentType: 'image/png' } });
+		await bucket.put('listing/b <c>.txt', new Uint8Array(2048));
+		await bucket.put('listing/docs/readme.md', new Uint8Array(8));
+	});
+
+	it('lists objects and sub-directories as JSON', async () => {
+		const res = await fetchApp(
+			new Request('https://files.example.com/files/docs/?no-cache', { headers: { Accept: 'application/json' } }),
+			listingEnv,
+		);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Type')).toBe('application/json');
+		expect(res.headers.get('Cache-Control')).toBe('public, max-age=30');
+
+		const listing = (await res.json()) as Listing;
+		expect(listing.prefix).toBe('listing/docs/');
+		expect(listing.directories).toEqual([]);
+		expect(listing.objects).toHaveLength(1);
+		expect(listing.objects[0]).toMatchObject({ name: 'readme.md', key: 'listing/docs/readme.md', size: 8 });
+		expect(listing.cursor).toBeUndefined();
+	});
+
+	it('paginates with a cursor', async () => {
+		const first = await fetchApp(new Request('https://files.example.com/files/?format=json&no-cache'), listingEnv);
+		const page1 = (await first.json()) as Listing;
+		expect(page1.cursor).toBeTruthy();
+
+		const second = await fetchApp(
+			new Request(`https://files.example.com/files/?format=json&no-cache&cursor=${encodeURIComponent(page1.cursor!)}`),
+			listingEnv,
+		);
+		const page2 = (await second.json()) as Listing;
+
+		const entries = [...page1.directories, ...page1.objects.map((o) => o.name), ...page2.directories, ...page2.objects.map((o) => o.name)];
+		expect(entries.sort()).toEqual(['a.png', 'b <c>.txt', 'docs/']);
+		expect(page2.cursor).toBeUndefined();
+	});
+
+	it('renders an escaped HTML index by default', async () => {
+		const res = await fetchApp(new Request('https://files.example.com/files/?no-cache'), listingEnv);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+
+		const html = await res.text();
+		expect(html).toContain('<title>Index of /files/</title>');
+		expect(html).toContain('<a href="../">../</a>');
+		expect(html).toContain('<a href="?no-cache=&amp;cursor=');
+		expect(html).not.toContain('<c>');
+	});
+
+	it('caches listings separately per format', async () => {
+		const url = 'https://files.example.com/files/docs/';
+		const html1 = await fetchApp(new Request(url), listingEnv);
+		expect(html1.headers.get('CF-Cache-Status')).toBeNull();
+
+		const json = await fetchApp(new Request(url, { headers: { Accept: 'application/json' } }), listingEnv);
+		expect(json.headers.get('Content-Type')).toBe('application/json');
+
+		const html2 = await fetchApp(new Request(url), listingEnv);
+		expect(html2.headers.get('CF-Cache-Status')).toBe('HIT');
+		expect(html2.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+
+		// The route's cache key policy applies to listings too
+		const tracked = await fetchApp(new Request(`${url}?utm_source=mail`), listingEnv);
+		expect(tracked.headers.get('CF-Cache-Status')).toBe('HIT');
+	});
+
+	it('keeps signed links working across pages and shares their cache entry', async () => {
+		const url = 'https://signed-files.example.com/files/';
+		const link = await generateSignedUrl(url, SECRET, Math.floor(Date.now() / 1000) + 600);
+		const first = await fetchApp(new Request(link), listingEnv);
+		expect(first.status).toBe(200);
+
+		const next = /<a href="([^"]*cursor=[^"]*)">Next page/.exec(await first.text())![1].replace(/&amp;/g, '&');
+		const nextUrl = new URL(next, link);
+		expect(nextUrl.searchParams.get('sig')).toBe(new URL(link).searchParams.get('sig'));
+		expect((await fetchApp(new Request(nextUrl), listingEnv)).status).toBe(200);
+
+		const other = await generateSignedUrl(url, SECRET, Math.floor(Date.now() / 1000) + 1200);
+		expect((await fetchApp(new Request(other), listingEnv)).headers.get('CF-Cache-Status')).toBe('HIT');
+	});
+
+	it('redirects a directory name without the trailing slash', async () => {
+		const res = await fetchApp(new Request('https://files.example.com/files/docs?no-cache'), listingEnv);
+		expect(res.status).toBe(302);
+		expect(res.headers.get('Location')).toBe('/files/docs/?no-cache');
+	});
+
+	it('still serves objects and 404s on listing routes', async () => {
+		const object = await fetchApp(new Request('https://files.example.com/files/a.png?no-cache'), listingEnv);
+		expect(object.status).toBe(200);
+
+		const missing = await fetchApp(new Request('https://files.example.com/files/missing?no-cache'), listingEnv);
+		expect(missing.status).toBe(404);
+	});
+
+	it('does not list on routes without listing', async () => {
+		const res = await fetchApp(new Request('https://nolist.example.com/files/docs/?no-cache'), listingEnv);
+		expect(res.status).toBe(404);
+	});
+});
+
+describe('S3-compatible API', () => {
+	const s3Env = {
+		...env,
+		BUCKET_ROUTING: {
+			routes: [
+				{
+					host: 's3.example.com',
+					pathPattern: '/media/*',
+					keyTemplate: 's3api/{rest}',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					s3Api: { bucket: 'media' },
+				},
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	const fetchS3 = (path: string, init?: RequestInit) => fetchApp(new Request(`https://s3.example.com${path}`, init), s3Env);
+
+	beforeAll(async () => {
+		const bucket = env.R2 as R2Bucket;
+		await bucket.put('s3api/a.txt', 'hello world', {
+			httpMetadata: { contentType: 'text/plain' },
+			customMetadata: { mtime: '1700000000' },
+		});
+		await bucket.put('s3api/dir/b.txt', 'b');
+		await bucket.put('s3api/dir/c d.txt', 'c');
+	});
+
+	it('lists objects and common prefixes with ListObjectsV2', async () => {
+		const res = await fetchS3('/media?list-type=2&delimiter=%2F');
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Content-Type')).toBe('application/xml');
+
+		const xml = await res.text();
+		expect(xml).toContain('<Name>media</Name>');
+		expect(xml).toContain('<KeyCount>2</KeyCount>');
+		expect(xml).toContain('<IsTruncated>false</IsTruncated>');
+		expect(xml).toMatch(/<Contents><Key>a\.txt<\/Key><LastModified>[^<]+<\/LastModified><ETag>&quot;\w+&quot;<\/ETag><Size>11<\/Size>/);
+		expect(xml).toContain('<CommonPrefixes><Prefix>dir/</Prefix></CommonPrefixes>');
+	});
+
+	it('paginates with continuation tokens', async () => {
+		const first = await (await fetchS3('/media?list-type=2&prefix=dir%2F&max-keys=1')).text();
+		expect(first).toContain('<IsTruncated>true</IsTruncated>');
+		expect(first).toContain('<Key>dir/b.txt</Key>');
+		const token = first.match(/<NextContinuationToken>([^<]+)<\/NextContinuationToken>/)![1];
+
+		const second = await (await fetchS3(`/media?list-type=2&prefix=dir%2F&max-keys=1&continuation-token=${encodeURIComponent(token)}`)).text();
+		expect(second).toContain('<Key>dir/c d.txt</Key>');
+		expect(second).toContain('<IsTruncated>false</IsTruncated>');
+	});
+
+	it('URL-encodes keys with encoding-type=url', async () => {
+		const xml = await (await fetchS3('/media?list-type=2&prefix=dir%2Fc&encoding-type=url')).text();
+		expect(xml).toContain('<EncodingType>url</EncodingType>');
+		expect(xml).toContain('<Key>dir/c%20d.txt</Key>');
+	});
+
+	it('rejects invalid list arguments', async () => {
+		const res = await fetchS3('/media?list-type=2&max-keys=-1');
+		expect(res.status).toBe(400);
+		expect(await res.text()).toContain('<Code>InvalidArgument</Code>');
+	});
+
+	it('serves GetObject with S3 headers, ranges and preconditions', async () => {
+		const res = await fetchS3('/media/a.txt');
+		expect(res.status).toBe(200);
+		expect(await res.text()).toBe('hello world');
+		expect(res.headers.get('Content-Length')).toBe('11');
+		expect(res.headers.get('Last-Modified')).toBeTruthy();
+		expect(res.headers.get('x-amz-meta-mtime')).toBe('1700000000');
+		const etag = res.headers.get('ETag')!;
+
+		const ranged = await fetchS3('/media/a.txt', { headers: { Range: 'bytes=0-4' } });
+		expect(ranged.status).toBe(206);
+		expect(ranged.headers.get('Content-Range')).toBe('bytes 0-4/11');
+		expect(await ranged.text()).toBe('hello');
+		for (const range of ['bytes=0-999', 'bytes=-500']) {
+			const clamped = await fetchS3('/media/a.txt', { headers: { Range: range } });
+			expect(clamped.status).toBe(206);
+			expect(clamped.headers.get('Content-Range')).toBe('bytes 0-10/11');
+			expect(clamped.headers.get('Content-Length')).toBe('11');
+			expect(await clamped.text()).toBe('hello world');
+		}
+		expect((await fetchS3('/media/a.txt', { headers: { Range: 'bytes=100-' } })).status).toBe(416);
+
+		expect((await fetchS3('/media/a.txt', { headers: { 'If-None-Match': etag } })).status).toBe(304);
+		const failed = await fetchS3('/media/a.txt', { headers: { 'If-Match': '"other"' } });
+		expect(failed.status).toBe(412);
+		expect(await failed.text()).toContain('<Code>PreconditionFailed</Code>');
+	});
+
+	it('answers HeadObject and NoSuchKey', async () => {
+		const head = await fetchS3('/media/dir/b.txt', { method: 'HEAD' });
+		expect(head.status).toBe(200);
+		expect(head.headers.get('Content-Length')).toBe('1');
+
+		expect((await fetchS3('/media/missing.txt', { method: 'HEAD' })).status).toBe(404);
+		const missing = await fetchS3('/media/missing.txt');
+		expect(missing.status).toBe(404);
+		const xml = await missing.text();
+		expect(xml).toContain('<Code>NoSuchKey</Code>');
+		expect(xml).toContain('<Resource>/media/missing.txt</Resource>');
+	});
+
+	it('is read-only', async () => {
+		const put = await fetchS3('/media/new.txt', { method: 'PUT', body: 'x' });
+		expect(put.status).toBe(405);
+		expect(await put.text()).toContain('<Code>MethodNotAllowed</Code>');
+		expect(await (env.R2 as R2Bucket).head('s3api/new.txt')).toBeNull();
+
+		expect((await fetchS3('/media', { method: 'HEAD' })).status).toBe(200);
+		expect((await fetchS3('/media')).status).toBe(501);
+	});
+});
+
+describe('Redirects', () => {
+	const redirectEnv = {
+		...env,
+		BUCKET_ROUTING: {
+			routes: [
+				{
+					host: 'cdn.erfianugrah.com',
+					pathPrefix: '/',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					redirects: {
+						rules: [{ from: '/legacy/:name', to: '/images/:name', status: 308 }],
+						file: '_redirects',
+					},
+				},
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	beforeAll(async () => {
+		await (env.R2 as R2Bucket).put('_redirects', '/old/*  /new/:splat  302\n');
+	});
+
+	it('applies rules declared in config, keeping the query string', async () => {
+		const res = await fetchApp(new Request('https://cdn.erfianugrah.com/legacy/cat.jpg?w=100'), redirectEnv);
+		expect(res.status).toBe(308);
+		expect(res.headers.get('Location')).toBe('/images/cat.jpg?w=100');
+	});
+
+	it('applies rules from the _redirects object in the bucket', async () => {
+		const res = await fetchApp(new Request('https://cdn.erfianugrah.com/old/a/b.png'), redirectEnv);
+		expect(res.status).toBe(302);
+		expect(res.headers.get('Location')).toBe('/new/a/b.png');
+	});
+
+	it('serves objects that match no rule', async () => {
+		const res = await fetchApp(new Request(`https://cdn.erfianugrah.com/${TEST_KEY}?no-cache`), redirectEnv);
+		expect(res.status).toBe(200);
+		await res.arrayBuffer();
+	});
+});
+
+describe('Signed URL auth', () => {
+	const SECRET = 'integration-signing-secret';
+	const signedEnv = {
+		...env,
+		URL_SIGNING_SECRET: SECRET,
+		BUCKET_ROUTING: {
+			routes: [
+				{ host: 'private.example.com', pathPrefix: '/', bucket: 'R2', bucketName: 'images-weur', auth: { type: 'signed-url' } },
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	it('rejects unsigned requests with 403', async () => {
+		const res = await fetchApp(new Request(`https://private.example.com/${TEST_KEY}`), signedEnv);
+		expect(res.status).toBe(403);
+	});
+
+	it('serves signed requests, sharing one cache entry across signatures', async () => {
+		const exp = Math.floor(Date.now() / 1000) + 600;
+		const first = await generateSignedUrl(`https://private.example.com/${TEST_KEY}`, SECRET, exp);
+		const second = await generateSignedUrl(`https://private.example.com/${TEST_KEY}`, SECRET, exp + 1);
+
+		const res1 = await fetchApp(new Request(first), signedEnv);
+		expect(res1.status).toBe(200);
+		expect(res1.headers.get('CF-Cache-Status')).toBeNull();
+
+		const res2 = await fetchApp(new Request(second), signedEnv);
+		expect(res2.status).toBe(200);
+		expect(res2.headers.get('CF-Cache-Status')).toBe('HIT');
+	});
+
+	it('rejects cached objects without a valid signature', async () => {
+		const res = await fetchApp(new Request(`https://private.example.com/${TEST_KEY}?exp=9999999999&sig=bogus`), signedEnv);
+		expect(res.status).toBe(403);
+	});
+});
+
+describe('JWT auth', () => {
+	const HMAC_KEY = 'integration-jwt-key-integration-jwt-key';
+	const jwtEnv = {
+		...env,
+		JWKS: JSON.stringify({ keys: [{ kty: 'oct', kid: 'k1', k: toBase64Url(new TextEncoder().encode(HMAC_KEY)) }] }),
+		BUCKET_ROUTING: {
+			routes: [
+				{
+					host: 'exports.example.com',
+					pathPrefix: '/',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					auth: { type: 'jwt', audience: 'exports', prefixClaim: 'prefixes' },
+				},
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	async function signToken(payload: Record<string, unknown>): Promise<string> {
+		const encoder = new TextEncoder();
+		const key = await crypto.subtle.importKey('raw', encoder.encode(HMAC_KEY), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+		const header = toBase64Url(encoder.encode(JSON.stringify({ alg: 'HS256', kid: 'k1' })));
+		const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+		const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${header}.${body}`));
+		return `${header}.${body}.${toBase64Url(new Uint8Array(signature))}`;
+	}
+
+	const exp = () => Math.floor(Date.now() / 1000) + 600;
+	const url = `https://exports.example.com/${TEST_KEY}`;
+
+	it('rejects missing and invalid tokens with 401', async () => {
+		const missing = await fetchApp(new Request(url), jwtEnv);
+		expect(missing.status).toBe(401);
+		expect(missing.headers.get('WWW-Authenticate')).toBe('Bearer');
+
+		const wrongAudience = await signToken({ aud: 'web', exp: exp(), prefixes: [''] });
+		const invalid = await fetchApp(new Request(url, { headers: { Authorization: `Bearer ${wrongAudience}` } }), jwtEnv);
+		expect(invalid.status).toBe(401);
+		expect(invalid.headers.get('WWW-Authenticate')).toContain('invalid_token');
+	});
+
+	it('rejects keys outside the token prefixes with 403', async () => {
+		const token = await signToken({ aud: 'exports', exp: exp(), prefixes: ['customers/acme/'] });
+		const res = await fetchApp(new Request(url, { headers: { Authorization: `Bearer ${token}` } }), jwtEnv);
+		expect(res.status).toBe(403);
+	});
+
+	it('serves valid tokens privately, without touching the shared cache', async () => {
+		const token = await signToken({ aud: 'exports', exp: exp(), prefixes: ['test-'] });
+		const headers = { Authorization: `Bearer ${token}` };
+
+		const first = await fetchApp(new Request(url, { headers }), jwtEnv);
+		expect(first.status).toBe(200);
+		expect(first.headers.get('Cache-Control')).toMatch(/^private, max-age=\d+$/);
+		expect(first.headers.get('Cache-Tag')).toBeNull();
+
+		const second = await fetchApp(new Request(url, { headers }), jwtEnv);
+		expect(second.status).toBe(200);
+		expect(second.headers.get('CF-Cache-Status')).toBeNull();
+
+		const cache = (caches as unknown as { default: Cache }).default;
+		expect(await cache.match(new Request(url))).toBeUndefined();
+	});
+});
+
+describe('Hotlink protection', () => {
+	const hotlinkRoute = (host: string, hotlink: Record<string, unknown>) => ({
+		host,
+		pathPrefix: '/',
+		bucket: 'R2',
+		bucketName: 'images-weur',
+		hotlink: { allowedReferers: ['*.erfianugrah.com'], ...hotlink },
+	});
+	const hotlinkEnv = {
+		...env,
+		BUCKET_ROUTING: {
+			routes: [
+				hotlinkRoute('forbid.example.com', { allowEmpty: false }),
+				hotlinkRoute('redirect.example.com', { action: 'redirect', redirectUrl: 'https://erfianugrah.com/hotlink.html' }),
+				hotlinkRoute('substitute.example.com', { action: 'substitute', substituteKey: 'hotlink.txt' }),
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	const fetchHotlink = (path: string, referer?: string) =>
+		fetchApp(new Request(path, { headers: referer ? { Referer: referer } : {} }), hotlinkEnv);
+
+	beforeAll(async () => {
+		await (env.R2 as R2Bucket).put('hotlink.txt', 'no hotlinking', { httpMetadata: { contentType: 'text/plain' } });
+	});
+
+	it('serves allowed referers and the own host', async () => {
+		expect((await fetchHotlink(`https://forbid.example.com/${TEST_KEY}`, 'https://blog.erfianugrah.com/post')).status).toBe(200);
+		expect((await fetchHotlink(`https://forbid.example.com/${TEST_KEY}`, 'https://forbid.example.com/gallery')).status).toBe(200);
+	});
+
+	it('forbids other and empty referers, including cache hits', async () => {
+		expect((await fetchHotlink(`https://forbid.example.com/${TEST_KEY}`, 'https://scraper.example.net/')).status).toBe(403);
+		expect((await fetchHotlink(`https://forbid.example.com/${TEST_KEY}`)).status).toBe(403);
+	});
+
+	it('redirects violations', async () => {
+		const res = await fetchHotlink(`https://redirect.example.com/${TEST_KEY}`, 'https://scraper.example.net/');
+		expect(res.status).toBe(302);
+		expect(res.headers.get('Location')).toBe('https://erfianugrah.com/hotlink.html');
+		// Empty referers are allowed by default
+		expect((await fetchHotlink(`https://redirect.example.com/${TEST_KEY}`)).status).toBe(200);
+	});
+
+	it('serves the substitute object uncached', async () => {
+		const res = await fetchHotlink(`https://substitute.example.com/${TEST_KEY}`, 'https://scraper.example.net/');
+		expect(res.status).toBe(200);
+		expect(await res.text()).toBe('no hotlinking');
+		expect(res.headers.get('Cache-Control')).toBe('no-store, max-age=0');
+	});
+});
+
+describe('Geo and IP access rules', () => {
+	const accessEnv = {
+		...env,
+		BUCKET_ROUTING: {
+			routes: [
+				{
+					host: 'licensed.example.com',
+					pathPrefix: '/',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					access: {
+						rules: [
+							{ action: 'allow', ips: ['198.51.100.0/24'] },
+							{ action: 'deny', keyPrefix: 'test-video', countries: ['US'], status: 451 },
+							{ action: 'deny', asns: [64512] },
+						],
+						errorDocument: 'blocked.txt',
+					},
+				},
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	const fetchFrom = (path: string, cf: Record<string, unknown>, ip = '203.0.113.7') =>
+		fetchApp(new Request(`https://licensed.example.com/${path}`, { headers: { 'CF-Connecting-IP': ip }, cf }), accessEnv);
+
+	beforeAll(async () => {
+		await (env.R2 as R2Bucket).put('blocked.txt', 'not available here', { httpMetadata: { contentType: 'text/plain' } });
+	});
+
+	it('denies restricted prefixes by country with 451 and the error document, including cache hits', async () => {
+		expect((await fetchFrom('test-video.mp4', { country: 'DE' })).status).toBe(200);
+
+		const denied = await fetchFrom('test-video.mp4', { country: 'US' });
+		expect(denied.status).toBe(451);
+		expect(await denied.text()).toBe('not available here');
+		expect(denied.headers.get('Cache-Control')).toBe('no-store, max-age=0');
+
+		// Other prefixes are unaffected
+		expect((await fetchFrom(TEST_KEY, { country: 'US' })).status).toBe(200);
+	});
+
+	it('denies by ASN with the default status', async () => {
+		expect((await fetchFrom(TEST_KEY, { country: 'DE', asn: 64512 })).status).toBe(403);
+	});
+
+	it('lets earlier allow rules win', async () => {
+		expect((await fetchFrom('test-video.mp4', { country: 'US', asn: 64512 }, '198.51.100.20')).status).toBe(200);
+	});
+});
+
+describe('CORS', () => {
+	const corsEnv = {
+		...env,
+		BUCKET_ROUTING: {
+			routes: [
+				{
+					host: 'cors.example.com',
+					pathPrefix: '/',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					cors: { allowedOrigins: ['https://*.erfianugrah.com'], allowedHeaders: ['Range'], maxAge: 600 },
+				},
+				{
+					host: 'public-cors.example.com',
+					pathPrefix: '/',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					cors: { allowedOrigins: ['*'] },
+				},
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	const url = `https://cors.example.com/${TEST_KEY}`;
+
+	it('echoes allowed origins on origin fetches and cache hits', async () => {
+		const headers = { Origin: 'https://app.erfianugrah.com' };
+		const miss = await fetchApp(new Request(url, { headers }), corsEnv);
+		expect(miss.status).toBe(200);
+		expect(miss.headers.get('Access-Control-Allow-Origin')).toBe('https://app.erfianugrah.com');
+		expect(miss.headers.get('Access-Control-Expose-Headers')).toContain('Content-Range');
+		expect(miss.headers.get('Vary')).toBe('Origin');
+
+		const hit = await fetchApp(new Request(url, { headers: { Origin: 'https://www.erfianugrah.com' } }), corsEnv);
+		expect(hit.headers.get('CF-Cache-Status')).toBe('HIT');
+		expect(hit.headers.get('Access-Control-Allow-Origin')).toBe('https://www.erfianugrah.com');
+	});
+
+	it('omits CORS headers for other origins but still varies on Origin', async () => {
+		const res = await fetchApp(new Request(url, { headers: { Origin: 'https://evil.example.net' } }), corsEnv);
+		expect(res.status).toBe(200);
+		expect(res.headers.get('Access-Control-Allow-Origin')).toBeNull();
+		expect(res.headers.get('Vary')).toBe('Origin');
+	});
+
+	it('sends "*" without Vary for wildcard routes', async () => {
+		const request = new Request(`https://public-cors.example.com/${TEST_KEY}`, { headers: { Origin: 'https://a.example' } });
+		const res = await fetchApp(request, corsEnv);
+		expect(res.headers.get('Access-Control-Allow-Origin')).toBe('*');
+		expect(res.headers.get('Vary')).toBeNull();
+	});
+
+	it('answers preflights', async () => {
+		const preflight = (origin: string, method: string) =>
+			fetchApp(new Request(url, { method: 'OPTIONS', headers: { Origin: origin, 'Access-Control-Request-Method': method } }), corsEnv);
+
+		const ok = await preflight('https://app.erfianugrah.com', 'GET');
+		expect(ok.status).toBe(204);
+		expect(ok.headers.get('Access-Control-Allow-Methods')).toBe('GET, HEAD');
+		expect(ok.headers.get('Access-Control-Allow-Headers')).toBe('Range');
+		expect(ok.headers.get('Access-Control-Max-Age')).toBe('600');
+
+		expect((await preflight('https://evil.example.net', 'GET')).status).toBe(403);
+		expect((await preflight('https://app.erfianugrah.com', 'DELETE')).status).toBe(403);
+	});
+
+	it('answers plain OPTIONS on routes without CORS', async () => {
+		const res = await fetchApp(new Request(`http://localhost/${TEST_KEY}`, { method: 'OPTIONS' }));
+		expect(res.status).toBe(204);
+		expect(res.headers.get('Allow')).toBe('GET, HEAD, OPTIONS');
+	});
+});
+
+describe('Uploads (PUT)', () => {
+	const TOKEN = 'integration-upload-token';
+	const SECRET = 'integration-upload-secret';
+	const uploadEnv = {
+		...env,
+		UPLOAD_TOKEN: TOKEN,
+		URL_SIGNING_SECRET: SECRET,
+		BUCKET_ROUTING: {
+			routes: [
+				{
+					host: 'upload.example.com',
+					pathPrefix: '/',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					uploads: { allowSignedUrls: true, maxSize: 1024, allowedContentTypes: ['text/*', 'image/png'] },
+				},
+				{ host: 'chain-upload.example.com', pathPrefix: '/', buckets: ['R2', 'VIDEOS'], bucketName: 'images-weur', uploads: {} },
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	const put = (path: string, body: string, headers: Record<string, string> = {}) =>
+		fetchApp(
+			new Request(`https://upload.example.com/${path}`, {
+				method: 'PUT',
+				body,
+				headers: {
+					Authorization: `Bearer ${TOKEN}`,
+					'Content-Type': 'text/plain',
+					'Content-Length': String(body.length),
+					...headers,
+				},
+			}),
+			uploadEnv,
+		);
+
+	it('rejects writes without valid credentials and on routes without uploads', async () => {
+		const anonymous = await fetchApp(new Request('https://upload.example.com/a.txt', { method: 'PUT', body: 'x' }), uploadEnv);
+		expect(anonymous.status).toBe(401);
+		expect((await put('a.txt', 'x', { Authorization: 'Bearer wrong' })).status).toBe(401);
+
+		const readOnly = await fetchApp(new Request('http://localhost/a.txt', { method: 'PUT', body: 'x' }));
+		expect(readOnly.status).toBe(405);
+	});
+
+	it('stores the body with http and custom metadata', async () => {
+		const res = await put('uploads/note.txt', 'hello', {
+			'Content-Disposition': 'attachment; filename="note.txt"',
+			'Cache-Control': 'max-age=60',
+			'x-amz-meta-owner': 'erfi',
+		});
+		expect(res.status).toBe(201);
+		const json = await res.json<{ key: string; size: number; etag: string }>();
+		expect(json).toMatchObject({ key: 'uploads/note.txt', size: 5 });
+		expect(res.headers.get('ETag')).toBe(json.etag);
+
+		const stored = await (env.R2 as R2Bucket).head('uploads/note.txt');
+		expect(stored?.httpMetadata).toMatchObject({
+			contentType: 'text/plain',
+			contentDisposition: 'attachment; filename="note.txt"',
+			cacheControl: 'max-age=60',
+		});
+		expect(stored?.customMetadata).toEqual({ owner: 'erfi' });
+	});
+
+	it('enforces size and content-type limits', async () => {
+		expect((await put('big.txt', 'x'.repeat(2048))).status).toBe(413);
+		expect((await put('doc.pdf', 'x', { 'Content-Type': 'application/pdf' })).status).toBe(415);
+		expect((await put('image.png', 'x', { 'Content-Type': 'image/png' })).status).toBe(201);
+	});
+
+	it('honours If-None-Match: * for create-only writes', async () => {
+		expect((await put('create-only.txt', 'one', { 'If-None-Match': '*' })).status).toBe(201);
+		expect((await put('create-only.txt', 'two', { 'If-None-Match': '*' })).status).toBe(412);
+	});
+
+	it('accepts PUT-bound signed URLs but not read links', async () => {
+		const exp = Math.floor(Date.now() / 1000) + 600;
+		const headers = { 'Content-Type': 'text/plain', 'Content-Length': '1' };
+		const readLink = await generateSignedUrl('https://upload.example.com/signed.txt', SECRET, exp);
+		expect((await fetchApp(new Request(readLink, { method: 'PUT', body: 'x', headers }), uploadEnv)).status).toBe(401);
+
+		const writeLink = await generateSignedUrl('https://upload.example.com/signed.txt', SECRET, exp, { method: 'PUT' });
+		expect((await fetchApp(new Request(writeLink, { method: 'PUT', body: 'x', headers }), uploadEnv)).status).toBe(201);
+	});
+
+	it('requires a PUT-bound link for listing multipart parts', async () => {
+		const exp = Math.floor(Date.now() / 1000) + 600;
+		const listParts = (link: string) => fetchApp(new Request(`${link}&uploadId=some-upload`), uploadEnv);
+		expect((await listParts(await generateSignedUrl('https://upload.example.com/parts.txt', SECRET, exp))).status).toBe(401);
+
+		// Past upload auth; listing parts then needs the S3 API, which isn't configured
+		const writeLink = await generateSignedUrl('https://upload.example.com/parts.txt', SECRET, exp, { method: 'PUT' });
+		expect((await listParts(writeLink)).status).toBe(501);
+	});
+
+	it('purges the Cache API and KV entries of the written URL', async () => {
+		const url = 'https://upload.example.com/purge-me.txt';
+		const kv = env.CDN_CACHE as KVNamespace;
+		expect((await put('purge-me.txt', 'old')).status).toBe(201);
+
+		await fetchApp(new Request(url), uploadEnv);
+		const cached = await fetchApp(new Request(url), uploadEnv);
+		expect(cached.headers.get('CF-Cache-Status')).toBe('HIT');
+		await kvCachePut(kv, url, new TextEncoder().encode('old').buffer, new Headers({ 'Content-Type': 'text/plain' }), 3600);
+
+		expect((await put('purge-me.txt', 'new')).status).toBe(201);
+
+		expect(await kvCacheMatch(kv, url, new Request(url))).toBeNull();
+		const fresh = await fetchApp(new Request(url), uploadEnv);
+		expect(fresh.headers.get('CF-Cache-Status')).toBeNull();
+		expect(await fresh.text()).toBe('new');
+	});
+
+	it('deletes the object and purges its Cache API entry and KV chunks', async () => {
+		const url = 'https://upload.example.com/delete-me.txt';
+		const kv = env.CDN_CACHE as KVNamespace;
+		expect((await put('delete-me.txt', 'doomed')).status).toBe(201);
+
+		await fetchApp(new Request(url), uploadEnv);
+		expect((await fetchApp(new Request(url), uploadEnv)).headers.get('CF-Cache-Status')).toBe('HIT');
+		// Over the 20 MiB chunk size, so the entry is a manifest plus two chunk keys
+		await kvCachePut(kv, url, new Uint8Array(20 * 1024 * 1024 + 1).buffer, new Headers({ 'Content-Type': 'text/plain' }), 3600);
+		const chunkKeys = (await kv.list({ prefix: `${url}_chunk_` })).keys.map((key) => key.name);
+		expect(chunkKeys).toHaveLength(2);
+
+		const anonymous = await fetchApp(new Request(url, { method: 'DELETE' }), uploadEnv);
+		expect(anonymous.status).toBe(401);
+
+		const res = await fetchApp(new Request(url, { method: 'DELETE', headers: { Authorization: `Bearer ${TOKEN}` } }), uploadEnv);
+		expect(res.status).toBe(204);
+		expect(await (env.R2 as R2Bucket).head('delete-me.txt')).toBeNull();
+		expect(await kv.list({ prefix: url })).toMatchObject({ keys: [] });
+		for (const key of chunkKeys) expect(await kv.get(key, 'arrayBuffer')).toBeNull();
+		expect((await fetchApp(new Request(url), uploadEnv)).status).toBe(404);
+	});
+
+	it('deletes the key from every bucket of a fallback chain', async () => {
+		await (env.VIDEOS as R2Bucket).put('chained.txt', 'old bucket');
+		const url = 'https://chain-upload.example.com/chained.txt';
+		expect(await (await fetchApp(new Request(url), uploadEnv)).text()).toBe('old bucket');
+
+		const res = await fetchApp(new Request(url, { method: 'DELETE', headers: { Authorization: `Bearer ${TOKEN}` } }), uploadEnv);
+		expect(res.status).toBe(204);
+		expect(await (env.VIDEOS as R2Bucket).head('chained.txt')).toBeNull();
+		expect((await fetchApp(new Request(url), uploadEnv)).status).toBe(404);
+	});
+});
+
+describe('Multipart uploads', () => {
+	const TOKEN = 'integration-multipart-token';
+	const multipartEnv = {
+		...env,
+		UPLOAD_TOKEN: TOKEN,
+		BUCKET_ROUTING: {
+			routes: [
+				{
+					host: 'multipart.example.com',
+					pathPrefix: '/',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					uploads: { maxSize: 16, allowedContentTypes: ['text/*'] },
+				},
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	const send = (method: string, path: string, body?: string, headers: Record<string, string> = {}) =>
+		fetchApp(
+			new Request(`https://multipart.example.com/${path}`, {
+				method,
+				body,
+				headers: {
+					Authorization: `Bearer ${TOKEN}`,
+					...(body !== undefined ? { 'Content-Length': String(body.length) } : {}),
+					...headers,
+				},
+			}),
+			multipartEnv,
+		);
+
+	async function create(key: string): Promise<string> {
+		const res = await send('POST', `${key}?uploads`, undefined, { 'Content-Type': 'text/plain' });
+		expect(res.status).toBe(200);
+		const { uploadId } = await res.json<{ uploadId: string }>();
+		return uploadId;
+	}
+
+	it('creates, uploads a part and completes', async () => {
+		const uploadId = await create('multi/note.txt');
+
+		const part = await send('PUT', `multi/note.txt?uploadId=${encodeURIComponent(uploadId)}&partNumber=1`, 'hello parts');
+		expect(part.status).toBe(200);
+		const { etag } = await part.json<{ partNumber: number; etag: string }>();
+		expect(part.headers.get('ETag')).toBe(etag);
+
+		const complete = await send('POST', `multi/note.txt?uploadId=${encodeURIComponent(uploadId)}`, JSON.stringify({ parts: [{ partNumber: 1, etag }] }));
+		expect(complete.status).toBe(200);
+		expect(await complete.json()).toMatchObject({ key: 'multi/note.txt', size: 11 });
+
+		const stored = await (env.R2 as R2Bucket).get('multi/note.txt');
+		expect(await stored?.text()).toBe('hello parts');
+		expect(stored?.httpMetadata?.contentType).toBe('text/plain');
+	});
+
+	it('aborts an upload', async () => {
+		const uploadId = await create('multi/aborted.txt');
+		expect((await send('DELETE', `multi/aborted.txt?uploadId=${encodeURIComponent(uploadId)}`)).status).toBe(204);
+		const part = await send('PUT', `multi/aborted.txt?uploadId=${encodeURIComponent(uploadId)}&partNumber=1`, 'late');
+		expect(part.status).toBe(404);
+	});
+
+	it('validates part numbers, completion bodies and limits', async () => {
+		const uploadId = encodeURIComponent(await create('multi/limits.txt'));
+		expect((await send('PUT', `multi/limits.txt?uploadId=${uploadId}&partNumber=0`, 'x')).status).toBe(400);
+		expect((await send('PUT', `multi/limits.txt?uploadId=${uploadId}&partNumber=1`, 'x'.repeat(32))).status).toBe(413);
+		expect((await send('POST', `multi/limits.txt?uploadId=${uploadId}`, '{"parts":[]}')).status).toBe(400);
+		const unknownPart = JSON.stringify({ parts: [{ partNumber: 1, etag: 'missing' }] });
+		expect((await send('POST', `multi/limits.txt?uploadId=${uploadId}`, unknownPart)).status).toBe(400);
+		expect((await send('POST', 'multi/doc.pdf?uploads', undefined, { 'Content-Type': 'application/pdf' })).status).toBe(415);
+		expect((await send('POST', 'multi/plain.txt', 'x')).status).toBe(415);
+	});
+
+	it('rejects an oversized upload before completing it', async () => {
+		await (env.R2 as R2Bucket).put('multi/existing.txt', 'original');
+		const uploadId = encodeURIComponent(await create('multi/existing.txt'));
+
+		const parts = [];
+		for (const partNumber of [1, 2]) {
+			const part = await send('PUT', `multi/existing.txt?uploadId=${uploadId}&partNumber=${partNumber}`, 'x'.repeat(10));
+			expect(part.status).toBe(200);
+			parts.push(await part.json<{ partNumber: number; etag: string }>());
+		}
+
+		const complete = await send('POST', `multi/existing.txt?uploadId=${uploadId}`, JSON.stringify({ parts }));
+		expect(complete.status).toBe(413);
+		const stored = await (env.R2 as R2Bucket).get('multi/existing.txt');
+		expect(await stored?.text()).toBe('original');
+	});
+
+	it('requires upload credentials and S3 access for listing parts', async () => {
+		const anonymous = await fetchApp(new Request('https://multipart.example.com/multi/a.txt?uploads', { method: 'POST' }), multipartEnv);
+		expect(anonymous.status).toBe(401);
+
+		const uploadId = encodeURIComponent(await create('multi/listed.txt'));
+		const unauthorized = await fetchApp(new Request(`https://multipart.example.com/multi/listed.txt?uploadId=${uploadId}`), multipartEnv);
+		expect(unauthorized.status).toBe(401);
+		expect((await send('GET', `multi/listed.txt?uploadId=${uploadId}`)).status).toBe(501);
+	});
+
+	it('serves objects on routes without uploads, whatever the query', async () => {
+		const parts = await fetchApp(new Request(`https://cdn.erfianugrah.com/${TEST_KEY}?uploadId=x`));
+		expect(parts.status).toBe(200);
+		expect(parts.headers.get('Content-Length')).toBe('2048');
+		const tus = await fetchApp(new Request(`https://cdn.erfianugrah.com/${TEST_KEY}?tus=x`, { method: 'HEAD' }));
+		expect(tus.status).toBe(200);
+	});
+});
+
+describe('Form uploads', () => {
+	const TOKEN = 'integration-form-token';
+	const formEnv = {
+		...env,
+		UPLOAD_TOKEN: TOKEN,
+		BUCKET_ROUTING: {
+			routes: [
+				{
+					host: 'forms.example.com',
+					pathPrefix: '/media',
+					stripPrefix: true,
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					uploads: { maxSize: 64, allowedObjectTypes: ['image', 'document'] },
+				},
+				{
+					host: 'forms.example.com',
+					pathPrefix: '/',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					uploads: { formKeyTemplate: 'fixed/{filename}' },
+				},
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	const postForm = async (path: string, form: FormData, headers: Record<string, string> = { Authorization: `Bearer ${TOKEN}` }) => {
+		// Serialize the form so the request carries a Content-Length, as a browser's would
+		const encoded = new Response(form);
+		const body = await encoded.arrayBuffer();
+		const formHeaders = { 'Content-Type': encoded.headers.get('Content-Type')!, 'Content-Length': String(body.byteLength), ...headers };
+		return fetchApp(new Request(`https://forms.example.com${path}`, { method: 'POST', body, headers: formHeaders }), formEnv);
+	};
+
+	interface FormResult {
+		files: { field: string; filename: string; key: string; url: string | null; size: number; contentType: string }[];
+	}
+
+	it('stores each file under the key template and returns its URL', async () => {
+		const form = new FormData();
+		form.append('title', 'ignored');
+		form.append('photo', new File(['png-bytes'], 'Summer Trip (1).PNG'));
+		form.append('notes', new File(['hello'], 'notes.txt', { type: 'text/plain' }));
+
+		const res = await postForm('/media/uploads/', form);
+		expect(res.status).toBe(201);
+		const { files } = await res.json<FormResult>();
+		const date = new Date().toISOString().slice(0, 10);
+
+		expect(files).toHaveLength(2);
+		expect(files[0]).toMatchObject({ field: 'photo', filename: 'Summer Trip (1).PNG', size: 9, contentType: 'image/png' });
+		expect(files[0].key).toMatch(new RegExp(`^uploads/${date}/[0-9a-f-]{36}-Summer-Trip-1\\.PNG$`));
+		expect(files[0].url).toBe(`https://forms.example.com/media/${files[0].key}`);
+		expect(files[1]).toMatchObject({ field: 'notes', contentType: 'text/plain' });
+
+		const served = await fetchApp(new Request(files[1].url!), formEnv);
+		expect(await served.text()).toBe('hello');
+	});
+
+	it('rejects the whole form if one file breaks the limits', async () => {
+		const tooBig = new FormData();
+		tooBig.append('a', new File(['ok'], 'a.txt', { type: 'text/plain' }));
+		tooBig.append('b', new File(['x'.repeat(128)], 'b.txt', { type: 'text/plain' }));
+		expect((await postForm('/media/limits/', tooBig)).status).toBe(413);
+
+		const wrongType = new FormData();
+		wrongType.append('a', new File(['ok'], 'a.zip'));
+		expect((await postForm('/media/limits/', wrongType)).status).toBe(415);
+
+		expect(await (env.R2 as R2Bucket).list({ prefix: 'limits/' })).toMatchObject({ objects: [] });
+	});
+
+	it('checks the body length before parsing the form', async () => {
+		const form = new FormData();
+		form.append('a', new File(['ok'], 'a.txt', { type: 'text/plain' }));
+		const headers = { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'multipart/form-data; boundary=x' };
+		const unsized = await fetchApp(new Request('https://forms.example.com/media/limits/', { method: 'POST', body: 'x', headers }), formEnv);
+		expect(unsized.status).toBe(411);
+
+		const oversized = await postForm('/media/limits/', form, { Authorization: `Bearer ${TOKEN}`, 'Content-Length': String(128 * 1024) });
+		expect(oversized.status).toBe(413);
+		expect(await (env.R2 as R2Bucket).list({ prefix: 'limits/' })).toMatchObject({ objects: [] });
+	});
+
+	it('rejects forms without files or credentials', async () => {
+		const empty = new FormData();
+		empty.append('title', 'no files');
+		expect((await postForm('/media/uploads/', empty)).status).toBe(400);
+		expect((await postForm('/media/uploads/', new FormData(), {})).status).toBe(401);
+	});
+
+	it('purges the cached copy when a template overwrites a key', async () => {
+		const form = () => {
+			const data = new FormData();
+			data.append('file', new File(['v1'], 'same.txt', { type: 'text/plain' }));
+			return data;
+		};
+		const first = await postForm('/', form());
+		const { files } = await first.json<FormResult>();
+		expect(files[0]).toMatchObject({ key: 'fixed/same.txt', url: 'https://forms.example.com/fixed/same.txt' });
+
+		await fetchApp(new Request(files[0].url!), formEnv);
+		const cached = await fetchApp(new Request(files[0].url!), formEnv);
+		expect(cached.headers.get('CF-Cache-Status')).toBe('HIT');
+
+		expect((await postForm('/', form())).status).toBe(201);
+		expect((await fetchApp(new Request(files[0].url!), formEnv)).headers.get('CF-Cache-Status')).toBeNull();
+	});
+
+	it('sanitizes file names', () => {
+		expect(sanitizeFilename('C:\\fakepath\\Résumé final.pdf')).toBe('Resume-final.pdf');
+		expect(sanitizeFilename('../../etc/passwd')).toBe('passwd');
+		expect(sanitizeFilename('...')).toBe('file');
+		expect(sanitizeFilename(`${'a'.repeat(200)}.jpeg`)).toBe(`${'a'.repeat(95)}.jpeg`);
+	});
+});
+
+describe('tus resumable uploads', () => {
+	const TOKEN = 'integration-tus-token';
+	const SECRET = 'integration-tus-secret';
+	const tusEnv = {
+		...env,
+		UPLOAD_TOKEN: TOKEN,
+		URL_SIGNING_SECRET: SECRET,
+		BUCKET_ROUTING: {
+			routes: [
+				{
+					host: 'tus.example.com',
+					pathPrefix: '/',
+					bucket: 'R2',
+					bucketName: 'images-weur',
+					uploads: {
+						maxSize: 16 * 1024 * 1024,
+						allowedObjectTypes: ['video', 'document', 'binary'],
+						allowSignedUrls: true,
+						tus: { binding: 'CDN_CACHE' },
+					},
+					cors: { allowedOrigins: ['*'], allowedMethods: ['GET', 'HEAD', 'POST', 'PATCH', 'DELETE'] },
+				},
+			],
+			defaultBucket: 'R2',
+		},
+	};
+
+	const send = (method: string, url: string, headers: Record<string, string> = {}, body?: Uint8Array<ArrayBuffer> | string) =>
+		fetchApp(
+			new Request(url.startsWith('http') ? url : `https://tus.example.com/${url}`, {
+				method,
+				body,
+				headers: { Authorization: `Bearer ${TOKEN}`, 'Tus-Resumable': '1.0.0', ...headers },
+			}),
+			tusEnv,
+		);
+
+	const b64 = (value: string) => btoa(value);
+	const patch = (location: string, offset: number, body: Uint8Array<ArrayBuffer> | string) =>
+		send('PATCH', location, { 'Content-Type': 'application/offset+octet-stream', 'Upload-Offset': String(offset) }, body);
+
+	async function create(key: string, length: number, metadata = ''): Promise<string> {
+		const res = await send('POST', key, { 'Upload-Length': String(length), 'Upload-Metadata': metadata });
+		expect(res.status).toBe(201);
+		expect(res.headers.get('Tus-Resumable')).toBe('1.0.0');
+		return res.headers.get('Location')!;
+	}
+
+	it('advertises the protocol on OPTIONS', async () => {
+		const res = await send('OPTIONS', 'any.bin');
+		expect(res.status).toBe(204);
+		expect(res.headers.get('Tus-Version')).toBe('1.0.0');
+		expect(res.headers.get('Tus-Extension')).toBe('creation,expiration,termination');
+		expect(res.headers.get('Tus-Max-Size')).toBe(String(16 * 1024 * 1024));
+		expect(res.headers.get('Allow')).toContain('PATCH');
+	});
+
+	it('creates, resumes and completes an upload', async () => {
+		const location = await create('tus/hello.txt', 11, `filename ${b64('hello.txt')},filetype ${b64('text/plain')}`);
+		expect(location).toMatch(/^https:\/\/tus\.example\.com\/tus\/hello\.txt\?tus=[0-9a-f]{32}$/);
+
+		const first = await patch(location, 0, 'hello ');
+		expect(first.status).toBe(204);
+		expect(first.headers.get('Upload-Offset')).toBe('6');
+
+		const head = await send('HEAD', location);
+		expect(head.status).toBe(200);
+		expect(head.headers.get('Upload-Offset')).toBe('6');
+		expect(head.headers.get('Upload-Length')).toBe('11');
+		expect(head.headers.get('Cache-Control')).toBe('no-store');
+
+		expect((await patch(location, 0, 'hello ')).status).toBe(409);
+		const last = await patch(location, 6, 'world');
+		expect(last.status).toBe(204);
+		expect(last.headers.get('Upload-Offset')).toBe('11');
+
+		const stored = await (env.R2 as R2Bucket).get('tus/hello.txt');
+		expect(await stored?.text()).toBe('hello world');
+		expect(stored?.httpMetadata?.contentType).toBe('text/plain');
+		expect(stored?.customMetadata).toEqual({ filename: 'hello.txt' });
+	});
+
+	it('reports completed uploads until they expire', async () => {
+		const location = await create('tus/done.txt', 4);
+		expect((await patch(location, 0, 'done')).status).toBe(204);
+
+		const head = await send('HEAD', location);
+		expect(head.status).toBe(200);
+		expect(head.headers.get('Upload-Offset')).toBe('4');
+		expect(head.headers.get('Upload-Length')).toBe('4');
+
+		// The client lost the final 204 and retries
+		const retried = await patch(location, 0, 'done');
+		expect(retried.status).toBe(204);
+		expect(retried.headers.get('Upload-Offset')).toBe('4');
+		expect(await (await (env.R2 as R2Bucket).get('tus/done.txt'))?.text()).toBe('done');
+
+		const empty = await create('tus/empty.txt', 0);
+		expect((await send('HEAD', empty)).headers.get('Upload-Offset')).toBe('0');
+	});
+
+	it('runs an upload on one PATCH-bound signed link and exposes the tus headers', async () => {
+		const url = 'https://tus.example.com/tus/signed.txt';
+		const exp = Math.floor(Date.now() / 1000) + 600;
+		const headers = { 'Tus-Resumable': '1.0.0', Origin: 'https://app.example.com' };
+		const metadata = { 'Upload-Length': '5', 'Upload-Metadata': `filetype ${b64('text/plain')}` };
+		const createWith = (link: string) => fetchApp(new Request(link, { method: 'POST', headers: { ...headers, ...metadata } }), tusEnv);
+
+		expect((await createWith(await generateSignedUrl(url, SECRET, exp, { method: 'POST' }))).status).toBe(401);
+		const created = await createWith(await generateSignedUrl(url, SECRET, exp, { method: 'PATCH' }));
+		expect(created.status).toBe(201);
+		expect(created.headers.get('Access-Control-Expose-Headers')).toContain('Location');
+		expect(created.headers.get('Access-Control-Expose-Headers')).toContain('Upload-Offset');
+		const location = new URL(created.headers.get('Location')!);
+		expect([...location.searchParams.keys()].sort()).toEqual(['exp', 'sig', 'tus']);
+
+		const head = await fetchApp(new Request(location, { method: 'HEAD', headers }), tusEnv);
+		expect(head.status).toBe(200);
+		expect(head.headers.get('Upload-Offset')).toBe('0');
+
+		const patched = await fetchApp(
+			new Request(location, {
+				method: 'PATCH',
+				body: 'hello',
+				headers: { ...headers, 'Content-Type': 'application/offset+octet-stream', 'Upload-Offset': '0' },
+			}),
+			tusEnv,
+		);
+		expect(patched.status).toBe(204);
+		expect(await (await (env.R2 as R2Bucket).get('tus/signed.txt'))?.text()).toBe('hello');
+	});
+
+	it('cuts large bodies into equal parts and keeps the remainder between requests', async () => {
+		const length = 5 * 1024 * 1024 + 10;
+		const data = new Uint8Array(length).map((_, i) => i % 251);
+		const location = await create('tus/large.bin', length);
+
+		const split = 3 * 1024 * 1024;
+		expect((await patch(location, 0, data.subarray(0, split))).headers.get('Upload-Offset')).toBe(String(split));
+		expect((await patch(location, split, data.subarray(split))).headers.get('Upload-Offset')).toBe(String(length));
+
+		const stored = await (env.R2 as R2Bucket).get('tus/large.bin');
+		const bytes = new Uint8Array(await stored!.arrayBuffer());
+		expect(bytes.length).toBe(length);
+		expect(bytes.every((b, i) => b === i % 251)).toBe(true);
+	});
+
+	it('terminates uploads', async () => {
+		const location = await create('tus/gone.bin', 100);
+		expect((await send('DELETE', location)).status).toBe(204);
+		expect((await send('HEAD', location)).status).toBe(404);
+		expect((await patch(location, 0, 'x')).status).toBe(404);
+	});
+
+	it('enforces protocol version, credentials and limits', async () => {
+		expect((await send('POST', 'tus/v.bin', { 'Tus-Resumable': '0.2.2', 'Upload-Length': '1' })).status).toBe(412);
+		expect((await send('POST', 'tus/anon.bin', { Authorization: '', 'Upload-Length': '1' })).status).toBe(401);
+		expect((await send('POST', 'tus/big.bin', { 'Upload-Length': String(32 * 1024 * 1024) })).status).toBe(413);
+		expect((await send('POST', 'tus/photo.png', { 'Upload-Length': '1' })).status).toBe(415);
+		expect((await send('POST', 'tus/nolength.bin')).status).toBe(400);
+
+		const location = await create('tus/bounds.bin', 4);
+		expect((await send('PATCH', location, { 'Upload-Offset': '0' }, 'abcd')).status).toBe(415);
+		expect((await patch(location, 0, 'abcdef')).status).toBe(400);
+		expect((await send('HEAD', location.replace('tus/bounds.bin', 'tus/other.bin'))).status).toBe(404);
+	});
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { parseIp, parseCidr, ipMatchesAny } from '../src/utils/ip';
+
+describe('parseIp', () => {
+	it('parses IPv4 and IPv6 addresses', () => {
+		expect(parseIp('203.0.113.7')).toEqual({ version: 4, value: 0xcb007107n });
+		expect(parseIp('2001:db8::1')).toEqual({ version: 6, value: 0x20010db8000000000000000000000001n });
+		expect(parseIp('::')).toEqual({ version: 6, value: 0n });
+	});
+
+	it('treats IPv4-mapped IPv6 addresses as IPv4', () => {
+		expect(parseIp('::ffff:203.0.113.7')).toEqual({ version: 4, value: 0xcb007107n });
+	});
+
+	it('rejects invalid addresses', () => {
+		for (const bad of ['256.0.0.1', '1.2.3', '1:2:3:4:5:6:7:8:9', '2001::db8::1', 'fe80::1%eth0', 'example.com', '']) {
+			expect(parseIp(bad)).toBeNull();
+		}
+	});
+});
+
+describe('ipMatchesAny', () => {
+	it('matches IPv4 and IPv6 CIDRs', () => {
+		expect(ipMatchesAny('203.0.113.7', ['203.0.113.0/24'])).toBe(true);
+		expect(ipMatchesAny('203.0.114.7', ['203.0.113.0/24'])).toBe(false);
+		expect(ipMatchesAny('2001:db8:1::5', ['2001:db8::/32'])).toBe(true);
+		expect(ipMatchesAny('2001:db9::5', ['2001:db8::/32'])).toBe(false);
+	});
+
+	it('matches bare addresses exactly and /0 as everything in the family', () => {
+		expect(ipMatchesAny('198.51.100.1', ['198.51.100.1'])).toBe(true);
+		expect(ipMatchesAny('198.51.100.2', ['198.51.100.1'])).toBe(false);
+		expect(ipMatchesAny('198.51.100.2', ['0.0.0.0/0'])).toBe(true);
+		expect(ipMatchesAny('2001:db8::1', ['0.0.0.0/0'])).toBe(false);
+	});
+
+	it('matches mapped clients against IPv4 ranges', () => {
+		expect(ipMatchesAny('::ffff:10.1.2.3', ['10.0.0.0/8'])).toBe(true);
+		expect(ipMatchesAny('10.1.2.3', ['::ffff:10.0.0.0/104'])).toBe(true);
+	});
+
+	it('ignores invalid CIDRs', () => {
+		expect(parseCidr('10.0.0.0/33')).toBeNull();
+		expect(parseCidr('10.0.0.0/8/8')).toBeNull();
+		expect(ipMatchesAny('10.0.0.1', ['10.0.0.0/33'])).toBe(false);
+	});
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { verifyJwt, parseJwks, type JwtAlgorithm } from '../src/utils/jwt';
+import { toBase64Url } from '../src/utils/crypto';
+
+const encoder = new TextEncoder();
+const now = () => Math.floor(Date.now() / 1000);
+
+const SIGN_PARAMS: Record<JwtAlgorithm, AlgorithmIdentifier | EcdsaParams> = {
+	RS256: { name: 'RSASSA-PKCS1-v1_5' },
+	ES256: { name: 'ECDSA', hash: 'SHA-256' },
+	HS256: { name: 'HMAC' },
+};
+
+async function signJwt(alg: JwtAlgorithm, key: CryptoKey, payload: Record<string, unknown>, kid?: string): Promise<string> {
+	const header = toBase64Url(encoder.encode(JSON.stringify({ alg, typ: 'JWT', kid })));
+	const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+	const signature = await crypto.subtle.sign(SIGN_PARAMS[alg], key, encoder.encode(`${header}.${body}`));
+	return `${header}.${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+const keys: Partial<Record<JwtAlgorithm, { signing: CryptoKey; jwk: JsonWebKey }>> = {};
+
+beforeAll(async () => {
+	const rsa = (await crypto.subtle.generateKey(
+		{ name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+		true,
+		['sign', 'verify'],
+	)) as CryptoKeyPair;
+	const ec = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])) as CryptoKeyPair;
+	const hmac = (await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, true, ['sign', 'verify'])) as CryptoKey;
+
+	const exportJwk = async (key: CryptoKey, kid: string) => ({ ...((await crypto.subtle.exportKey('jwk', key)) as JsonWebKey), kid });
+	keys.RS256 = { signing: rsa.privateKey, jwk: await exportJwk(rsa.publicKey, 'rsa') };
+	keys.ES256 = { signing: ec.privateKey, jwk: await exportJwk(ec.publicKey, 'ec') };
+	keys.HS256 = { signing: hmac, jwk: await exportJwk(hmac, 'hmac') };
+});
+
+const jwks = () => [keys.RS256!.jwk, keys.ES256!.jwk, keys.HS256!.jwk];
+const ALL: JwtAlgorithm[] = ['RS256', 'ES256', 'HS256'];
+
+describe('verifyJwt', () => {
+	it.each(ALL)('verifies %s tokens', async (alg) => {
+		const token = await signJwt(alg, keys[alg]!.signing, { sub: 'user-1', exp: now() + 60 });
+		const result = await verifyJwt(token, jwks(), { algorithms: ALL });
+		expect(result).toEqual({ payload: { sub: 'user-1', exp: expect.any(Number) } });
+	});
+
+	it('rejects disallowed algorithms and "none"', async () => {
+		const token = await signJwt('HS256', keys.HS256!.signing, { exp: now() + 60 });
+		expect(await verifyJwt(token, jwks(), { algorithms: ['RS256'] })).toEqual({ error: 'algorithm "HS256" not allowed' });
+
+		const [, body] = token.split('.');
+		const unsigned = `${toBase64Url(encoder.encode('{"alg":"none"}'))}.${body}.`;
+		expect(await verifyJwt(unsigned, jwks(), { algorithms: ALL })).toEqual({ error: 'algorithm "none" not allowed' });
+	});
+
+	it('rejects tampered payloads and unknown key ids', async () => {
+		const token = await signJwt('ES256', keys.ES256!.signing, { sub: 'user-1', exp: now() + 60 }, 'ec');
+		const [header, , signature] = token.split('.');
+		const forged = toBase64Url(encoder.encode(JSON.stringify({ sub: 'admin', exp: now() + 60 })));
+		expect(await verifyJwt(`${header}.${forged}.${signature}`, jwks(), { algorithms: ALL })).toEqual({ error: 'bad signature' });
+
+		const otherKid = await signJwt('ES256', keys.ES256!.signing, { exp: now() + 60 }, 'rotated-out');
+		expect(await verifyJwt(otherKid, jwks(), { algorithms: ALL })).toEqual({ error: 'no matching key' });
+	});
+
+	it('checks exp and nbf with clock tolerance', async () => {
+		const sign = (payload: Record<string, unknown>) => signJwt('HS256', keys.HS256!.signing, payload);
+		expect(await verifyJwt(await sign({ sub: 'x' }), jwks(), { algorithms: ALL })).toEqual({ error: 'missing exp' });
+		expect(await verifyJwt(await sign({ exp: now() - 120 }), jwks(), { algorithms: ALL })).toEqual({ error: 'token expired' });
+		expect(await verifyJwt(await sign({ exp: now() - 30 }), jwks(), { algorithms: ALL })).toHaveProperty('payload');
+		expect(await verifyJwt(await sign({ exp: now() + 600, nbf: now() + 300 }), jwks(), { algorithms: ALL })).toEqual({
+			error: 'token not yet valid',
+		});
+	});
+
+	it('checks audience and issuer', async () => {
+		const token = await signJwt('HS256', keys.HS256!.signing, { iss: 'https://auth.example.com', aud: ['exports', 'web'], exp: now() + 60 });
+		const opts = { algorithms: ALL, issuer: 'https://auth.example.com' };
+		expect(await verifyJwt(token, jwks(), { ...opts, audience: 'exports' })).toHaveProperty('payload');
+		expect(await verifyJwt(token, jwks(), { ...opts, audience: ['api', 'web'] })).toHaveProperty('payload');
+		expect(await verifyJwt(token, jwks(), { ...opts, audience: 'api' })).toEqual({ error: 'audience mismatch' });
+		expect(await verifyJwt(token, jwks(), { algorithms: ALL, issuer: 'https://evil.example.com' })).toEqual({ error: 'issuer mismatch' });
+	});
+
+	it('rejects malformed tokens', async () => {
+		expect(await verifyJwt('not-a-jwt', jwks(), { algorithms: ALL })).toEqual({ error: 'malformed token' });
+		expect(await verifyJwt('a.b.c', jwks(), { algorithms: ALL })).toEqual({ error: 'malformed token' });
+	});
+});
+
+describe('parseJwks', () => {
+	it('accepts JSON strings and parsed objects', () => {
+		expect(parseJwks('{"keys":[{"kty":"oct","k":"AA"}]}')).toEqual([{ kty: 'oct', k: 'AA' }]);
+		expect(parseJwks({ keys: [] })).toEqual([]);
+	});
+
+	it('rejects anything else', () => {
+		expect(parseJwks('not json')).toBeNull();
+		expect(parseJwks({ keys: 'x' })).toBeNull();
+		expect(parseJwks(undefined)).toBeNull();
+	});
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { parseRedirectsFile } from '../src/services/redirects';
+
+describe('parseRedirectsFile', () => {
+	it('parses rules, statuses and comments', () => {
+		const rules = parseRedirectsFile(`
+# Renamed assets
+/old.png           /new.png
+/blog/:slug        /posts/:slug        302
+/downloads/*       https://dl.example.com/:splat   308!
+`);
+		expect(rules).toEqual([
+			{ from: '/old.png', to: '/new.png', status: 301 },
+			{ from: '/blog/:slug', to: '/posts/:slug', status: 302 },
+			{ from: '/downloads/*', to: 'https://dl.example.com/:splat', status: 308 },
+		]);
+	});
+
+	it('skips rewrites, malformed lines and invalid patterns', () => {
+		const rules = parseRedirectsFile(`
+/spa/*   /index.html   200
+/only-source
+relative   /target
+/*/bad   /target
+/ok   /fine   307
+`);
+		expect(rules).toEqual([{ from: '/ok', to: '/fine', status: 307 }]);
+	});
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { matchHost, matchPathPattern, expandKeyTemplate, assertValidPathPattern } from '../src/utils/route-match';
+
+describe('matchHost', () => {
+	it('matches exact hostnames', () => {
+		expect(matchHost('cdn.erfianugrah.com', 'cdn.erfianugrah.com')).toBe(true);
+		expect(matchHost('cdn.erfianugrah.com', 'videos.erfi.dev')).toBe(false);
+	});
+
+	it('matches leading wildcards but not the bare suffix', () => {
+		expect(matchHost('*.erfi.dev', 'videos.erfi.dev')).toBe(true);
+		expect(matchHost('*.erfi.dev', 'erfi.dev')).toBe(false);
+		expect(matchHost('*', 'anything.example')).toBe(true);
+	});
+});
+
+describe('matchPathPattern', () => {
+	it('captures named segments and the trailing splat', () => {
+		expect(matchPathPattern('/u/:tenant/*', '/u/acme/photos/cat.jpg')).toEqual({
+			tenant: 'acme',
+			rest: 'photos/cat.jpg',
+		});
+	});
+
+	it('matches a splat pattern with an empty remainder', () => {
+		expect(matchPathPattern('/u/:tenant/*', '/u/acme')).toEqual({ tenant: 'acme', rest: '' });
+		expect(matchPathPattern('/u/:tenant/*', '/u/acme/')).toEqual({ tenant: 'acme', rest: '' });
+	});
+
+	it('requires exact segment counts without a splat', () => {
+		expect(matchPathPattern('/assets/:file', '/assets/app.js')).toEqual({ file: 'app.js' });
+		expect(matchPathPattern('/assets/:file', '/assets/js/app.js')).toBeNull();
+		expect(matchPathPattern('/assets/:file', '/static/app.js')).toBeNull();
+	});
+
+	it('escapes regex characters in literal segments', () => {
+		expect(matchPathPattern('/v1.0/*', '/v1.0/a')).toEqual({ rest: 'a' });
+		expect(matchPathPattern('/v1.0/*', '/v1x0/a')).toBeNull();
+	});
+
+	it('rejects a splat that is not the last segment', () => {
+		expect(() => assertValidPathPattern('/*/foo')).toThrow();
+	});
+});
+
+describe('expandKeyTemplate', () => {
+	it('substitutes captures and collapses slashes', () => {
+		expect(expandKeyTemplate('tenants/{tenant}/{rest}', { tenant: 'acme', rest: 'a/b.jpg' })).toBe('tenants/acme/a/b.jpg');
+		expect(expandKeyTemplate('/{tenant}//{rest}', { tenant: 'acme', rest: 'x' })).toBe('acme/x');
+	});
+
+	it('expands unknown placeholders to an empty string', () => {
+		expect(expandKeyTemplate('a/{missing}/b', {})).toBe('a/b');
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { generateSignedUrl, verifySignedUrl } from '../src/utils/signed-url';
+import { buildCacheKey } from '../src/utils/cache-key';
+
+const SECRET = 'test-signing-secret';
+const future = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('generateSignedUrl / verifySignedUrl', () => {
+	it('round-trips a valid signature', async () => {
+		const url = await generateSignedUrl('https://cdn.example.com/private/report.pdf', SECRET, future());
+		expect(url).toMatch(/\?exp=\d+&sig=[A-Za-z0-9_-]+$/);
+		expect(await verifySignedUrl(new URL(url), SECRET)).toBeNull();
+	});
+
+	it('accepts a Date expiry and keeps other query params', async () => {
+		const url = new URL(await generateSignedUrl('https://cdn.example.com/a.jpg?tags=x', SECRET, new Date(Date.now() + 60_000)));
+		expect(url.searchParams.get('tags')).toBe('x');
+		expect(await verifySignedUrl(url, SECRET)).toBeNull();
+	});
+
+	it('rejects expired, tampered and unsigned URLs', async () => {
+		const expired = await generateSignedUrl('https://cdn.example.com/a.jpg', SECRET, Math.floor(Date.now() / 1000) - 1);
+		expect(await verifySignedUrl(new URL(expired), SECRET)).toBe('expired');
+
+		const otherPath = new URL(await generateSignedUrl('https://cdn.example.com/a.jpg', SECRET, future()));
+		otherPath.pathname = '/b.jpg';
+		expect(await verifySignedUrl(otherPath, SECRET)).toBe('bad signature');
+
+		const extended = new URL(await generateSignedUrl('https://cdn.example.com/a.jpg', SECRET, future()));
+		extended.searchParams.set('exp', String(future() + 86400));
+		expect(await verifySignedUrl(extended, SECRET)).toBe('bad signature');
+
+		const wrongSecret = await generateSignedUrl('https://cdn.example.com/a.jpg', 'other', future());
+		expect(await verifySignedUrl(new URL(wrongSecret), SECRET)).toBe('bad signature');
+
+		expect(await verifySignedUrl(new URL('https://cdn.example.com/a.jpg'), SECRET)).toBe('missing exp or sig');
+	});
+
+	it('binds write links to their method', async () => {
+		const putLink = new URL(await generateSignedUrl('https://cdn.example.com/a.jpg', SECRET, future(), { method: 'PUT' }));
+		expect(await verifySignedUrl(putLink, SECRET, { method: 'PUT' })).toBeNull();
+		expect(await verifySignedUrl(putLink, SECRET)).toBe('bad signature');
+		expect(await verifySignedUrl(putLink, SECRET, { method: 'DELETE' })).toBe('bad signature');
+
+		const readLink = new URL(await generateSignedUrl('https://cdn.example.com/a.jpg', SECRET, future()));
+		expect(await verifySignedUrl(readLink, SECRET, { method: 'HEAD' })).toBeNull();
+		expect(await verifySignedUrl(readLink, SECRET, { method: 'PUT' })).toBe('bad signature');
+	});
+});
+
+describe('buildCacheKey', () => {
+	it('drops the listed query params', () => {
+		expect(buildCacheKey('https://cdn.example.com/a.jpg?exp=1&sig=abc&w=100', { dropParams: ['exp', 'sig'] }))
+			.toBe('https://cdn.example.com/a.jpg?w=100');
+		expect(buildCacheKey('https://cdn.example.com/a.jpg?exp=1')).toBe('https://cdn.example.com/a.jpg?exp=1');
+	});
+});